@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getRecordingStore, requireOwner } from '../../../lib/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const denied = requireOwner(request);
+  if (denied) return denied;
+  const { id } = await params;
+
+  try {
+    const audio = await getRecordingStore().getAudio(id);
+    if (!audio) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    return new Response(audio.stream, {
+      headers: {
+        'Content-Type': audio.mimeType,
+        'Content-Length': String(audio.size),
+        'Content-Disposition': 'attachment',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to read recording:', error);
+    return NextResponse.json({ error: 'Failed to read recording' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const denied = requireOwner(request);
+  if (denied) return denied;
+  const { id } = await params;
+
+  try {
+    const deleted = await getRecordingStore().delete(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete recording:', error);
+    return NextResponse.json({ error: 'Failed to delete recording' }, { status: 500 });
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { getRecordingStore, requireOwner } from '../../lib/server';
+
+export async function GET(request: Request) {
+  const denied = requireOwner(request);
+  if (denied) return denied;
+
+  try {
+    const recordings = await getRecordingStore().list();
+    return NextResponse.json({ recordings });
+  } catch (error) {
+    console.error('Failed to list recordings:', error);
+    return NextResponse.json({ error: 'Failed to list recordings' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import {
+  StorageNotFoundError,
+  UploadOffsetError,
+  getRecordingStore,
+  requireOwner,
+} from '../../../../lib/server';
+
+interface RouteContext {
+  params: Promise<{ uploadId: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const denied = requireOwner(request);
+  if (denied) return denied;
+  const { uploadId } = await params;
+
+  try {
+    const upload = await getRecordingStore().getUpload(uploadId);
+    if (!upload) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+    return NextResponse.json(upload);
+  } catch (error) {
+    console.error('Failed to read upload:', error);
+    return NextResponse.json({ error: 'Failed to read upload' }, { status: 500 });
+  }
+}
+
+// Appends the request body at the byte offset given in the Upload-Offset header
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const denied = requireOwner(request);
+  if (denied) return denied;
+  const { uploadId } = await params;
+
+  const offset = Number(request.headers.get('Upload-Offset'));
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({ error: 'Missing or invalid Upload-Offset header' }, { status: 400 });
+  }
+
+  try {
+    const data = new Uint8Array(await request.arrayBuffer());
+    const upload = await getRecordingStore().appendUpload(uploadId, offset, data);
+    return NextResponse.json(upload);
+  } catch (error) {
+    if (error instanceof StorageNotFoundError) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+    if (error instanceof UploadOffsetError) {
+      return NextResponse.json(
+        { error: error.message, offset: error.expectedOffset },
+        { status: 409 },
+      );
+    }
+    console.error('Failed to append upload:', error);
+    return NextResponse.json({ error: 'Failed to append upload' }, { status: 500 });
+  }
+}
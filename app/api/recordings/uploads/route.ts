@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { RemoteRecording } from '../../../types/audio';
+import { getRecordingStore, isAudioMimeType, isValidId, requireOwner } from '../../../lib/server';
+
+interface CreateUploadBody {
+  recording: Omit<RemoteRecording, 'size' | 'uploadedAt'>;
+  size: number;
+}
+
+// Starts a resumable upload, or returns the existing one for the same recording
+export async function POST(request: Request) {
+  const denied = requireOwner(request);
+  if (denied) return denied;
+
+  let body: CreateUploadBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+
+  const { recording, size } = body ?? {};
+  if (!recording || typeof recording.id !== 'string' || !isValidId(recording.id)) {
+    return NextResponse.json({ error: 'Invalid recording id' }, { status: 400 });
+  }
+  if (typeof recording.name !== 'string' || typeof recording.mimeType !== 'string') {
+    return NextResponse.json({ error: 'Invalid recording metadata' }, { status: 400 });
+  }
+  if (!isAudioMimeType(recording.mimeType)) {
+    return NextResponse.json({ error: 'Only audio types are accepted' }, { status: 415 });
+  }
+  if (typeof recording.createdAt !== 'string' || Number.isNaN(Date.parse(recording.createdAt))) {
+    return NextResponse.json({ error: 'Invalid creation date' }, { status: 400 });
+  }
+  if (!Number.isInteger(size) || size <= 0) {
+    return NextResponse.json({ error: 'Invalid size' }, { status: 400 });
+  }
+
+  try {
+    const store = getRecordingStore();
+    if (await store.get(recording.id)) {
+      return NextResponse.json({ error: 'Recording already exists' }, { status: 409 });
+    }
+
+    const upload = await store.createUpload(recording, size);
+    return NextResponse.json(upload, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create upload:', error);
+    return NextResponse.json({ error: 'Failed to create upload' }, { status: 500 });
+  }
+}
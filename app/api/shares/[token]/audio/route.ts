@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getRecordingStore, getShareCookieName, getShareStore, lookupShare } from '../../../../lib/server';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { token } = await params;
+
+  try {
+    const { share, status } = await lookupShare(token);
+    if (!share) {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+    }
+    if (status !== 'active') {
+      return NextResponse.json({ error: 'Share is no longer available' }, { status: 410 });
+    }
+
+    const accessKey = (await cookies()).get(getShareCookieName(token))?.value;
+    if (!(await getShareStore().hasAccess(token, accessKey))) {
+      return NextResponse.json({ error: 'Password required' }, { status: 401 });
+    }
+
+    const audio = await getRecordingStore().getAudio(share.recordingId);
+    if (!audio) {
+      return NextResponse.json({ error: 'Share is no longer available' }, { status: 410 });
+    }
+
+    return new Response(audio.stream, {
+      headers: {
+        'Content-Type': audio.mimeType,
+        'Content-Length': String(audio.size),
+        'Content-Disposition': 'inline',
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to read shared audio:', error);
+    return NextResponse.json({ error: 'Failed to read shared audio' }, { status: 500 });
+  }
+}
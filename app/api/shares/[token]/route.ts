@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getShareStore, lookupShare, requireOwner } from '../../../lib/server';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+// 404 for tokens that never existed, 410 for links that are expired, revoked or orphaned.
+// Anyone holding the link may call this, so it never reveals which recording is shared.
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { token } = await params;
+
+  try {
+    const { share, status } = await lookupShare(token);
+    if (!share) {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+    }
+    if (status !== 'active') {
+      return NextResponse.json({ status }, { status: 410 });
+    }
+    return NextResponse.json({
+      status,
+      expiresAt: share.expiresAt,
+      hasPassword: share.hasPassword,
+    });
+  } catch (error) {
+    console.error('Failed to read share:', error);
+    return NextResponse.json({ error: 'Failed to read share' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const denied = requireOwner(request);
+  if (denied) return denied;
+  const { token } = await params;
+
+  try {
+    const share = await getShareStore().revoke(token);
+    if (!share) {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+    }
+    return NextResponse.json(share);
+  } catch (error) {
+    console.error('Failed to revoke share:', error);
+    return NextResponse.json({ error: 'Failed to revoke share' }, { status: 500 });
+  }
+}
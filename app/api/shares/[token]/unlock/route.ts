@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getShareCookieName, getShareStore, lookupShare } from '../../../../lib/server';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { token } = await params;
+
+  let password: unknown;
+  try {
+    ({ password } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+  if (typeof password !== 'string') {
+    return NextResponse.json({ error: 'Missing password' }, { status: 400 });
+  }
+
+  try {
+    const { share, status } = await lookupShare(token);
+    if (!share) {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+    }
+    if (status !== 'active') {
+      return NextResponse.json({ error: 'Share is no longer available' }, { status: 410 });
+    }
+
+    const shareStore = getShareStore();
+    if (!(await shareStore.verifyPassword(token, password))) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ ok: true });
+    response.cookies.set(getShareCookieName(token), (await shareStore.getAccessKey(token))!, {
+      httpOnly: true,
+      sameSite: 'lax',
+      path: '/',
+      expires: share.expiresAt ? new Date(share.expiresAt) : undefined,
+    });
+    return response;
+  } catch (error) {
+    console.error('Failed to unlock share:', error);
+    return NextResponse.json({ error: 'Failed to unlock share' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { getRecordingStore, getShareStore, isValidId, requireOwner } from '../../lib/server';
+
+interface CreateShareBody {
+  recordingId: string;
+  expiresInHours: number | null;
+  password?: string;
+  peaks?: number[];
+}
+
+const MAX_PEAKS = 1000;
+
+export async function GET(request: Request) {
+  const denied = requireOwner(request);
+  if (denied) return denied;
+
+  const recordingId = new URL(request.url).searchParams.get('recordingId');
+  if (!recordingId || !isValidId(recordingId)) {
+    return NextResponse.json({ error: 'Missing recordingId' }, { status: 400 });
+  }
+
+  try {
+    const shares = await getShareStore().listForRecording(recordingId);
+    return NextResponse.json({ shares });
+  } catch (error) {
+    console.error('Failed to list shares:', error);
+    return NextResponse.json({ error: 'Failed to list shares' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const denied = requireOwner(request);
+  if (denied) return denied;
+
+  let body: CreateShareBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+
+  const { recordingId, expiresInHours, password, peaks = [] } = body ?? {};
+  if (typeof recordingId !== 'string' || !isValidId(recordingId)) {
+    return NextResponse.json({ error: 'Invalid recordingId' }, { status: 400 });
+  }
+  if (expiresInHours !== null && (typeof expiresInHours !== 'number' || !(expiresInHours > 0))) {
+    return NextResponse.json({ error: 'Invalid expiry' }, { status: 400 });
+  }
+  if (password !== undefined && typeof password !== 'string') {
+    return NextResponse.json({ error: 'Invalid password' }, { status: 400 });
+  }
+  if (!Array.isArray(peaks) || peaks.length > MAX_PEAKS || peaks.some(peak => typeof peak !== 'number')) {
+    return NextResponse.json({ error: 'Invalid waveform' }, { status: 400 });
+  }
+
+  try {
+    if (!(await getRecordingStore().get(recordingId))) {
+      return NextResponse.json({ error: 'Recording has not been uploaded' }, { status: 404 });
+    }
+
+    const share = await getShareStore().create({
+      recordingId,
+      expiresInHours,
+      password: password || undefined,
+      peaks,
+    });
+    return NextResponse.json(share, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create share:', error);
+    return NextResponse.json({ error: 'Failed to create share' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { TranscriptionError, getTranscriptionProvider } from '../../lib/transcription';
+
+export async function POST(request: Request) {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json({ error: 'Expected multipart form data' }, { status: 400 });
+  }
+
+  const audio = formData.get('audio');
+  if (!(audio instanceof Blob) || audio.size === 0) {
+    return NextResponse.json({ error: 'Missing audio file' }, { status: 400 });
+  }
+
+  const duration = Number(formData.get('duration'));
+  if (!Number.isFinite(duration) || duration < 0) {
+    return NextResponse.json({ error: 'Invalid duration' }, { status: 400 });
+  }
+
+  const language = formData.get('language');
+
+  try {
+    const provider = getTranscriptionProvider();
+    const segments = await provider.transcribe({
+      audio: await audio.arrayBuffer(),
+      mimeType: audio.type,
+      duration,
+      language: typeof language === 'string' ? language : undefined,
+    });
+
+    return NextResponse.json({ provider: provider.name, segments });
+  } catch (error) {
+    console.error('Transcription error:', error);
+    const status = error instanceof TranscriptionError ? error.status : 500;
+    return NextResponse.json({ error: 'Transcription failed' }, { status });
+  }
+}
@@ -1,9 +1,73 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { AudioRecording, RecordingState } from '../types/audio';
+import { AudioRecording, RecordingMarker, RecordingState, RecordingTrack } from '../types/audio';
 import { audioStorage } from '../lib/audioStorage';
 import MicrophoneSelector from './MicrophoneSelector';
+import LevelMeter from './LevelMeter';
+import VadControls from './VadControls';
+import ProcessingControls from './ProcessingControls';
+import RecordingSettingsPanel from './RecordingSettingsPanel';
+import MarkerList from './MarkerList';
+import RecordingScheduler from './RecordingScheduler';
+import {
+  DEFAULT_PROCESSING_SETTINGS,
+  ProcessingChain,
+  ProcessingSettings,
+  getTrackConstraints,
+  loadProcessingSettings,
+  saveProcessingSettings,
+} from '../lib/audioProcessing';
+import { storageQuotaManager } from '../lib/storageQuota';
+import {
+  DEFAULT_VAD_SETTINGS,
+  VadCallbacks,
+  VadSettings,
+  VoiceActivityDetector,
+  loadVadSettings,
+  saveVadSettings,
+} from '../lib/voiceActivity';
+import { ShortcutAction, formatKey, shortcutManager } from '../lib/shortcuts';
+import { createMarker } from '../lib/markers';
+import { audioDeviceManager } from '../lib/audioDevices';
+import { MicDiagnostics } from '../lib/micDiagnostics';
+import { InputMixer } from '../lib/multitrack';
+import {
+  COUNTDOWN_SECONDS,
+  DEFAULT_RECORDING_SETTINGS,
+  RecordingSettings,
+  formatRecordingName,
+  getFormatConstraints,
+  getRecorderOptions,
+  loadRecordingSettings,
+  saveRecordingSettings,
+} from '../lib/recordingSettings';
+import {
+  MAX_TIMER_DELAY_MS,
+  SCHEDULE_GRACE_MS,
+  loadScheduledStart,
+  saveScheduledStart,
+} from '../lib/recordingSchedule';
+
+// Chunks are flushed to IndexedDB at this interval so a crash loses at most one slice
+const CHUNK_INTERVAL_MS = 1000;
+const QUOTA_CHECK_INTERVAL_MS = 15000;
+const QUOTA_WARNING_SECONDS = 120;
+// Stop and save the take before it can run into the quota
+const QUOTA_STOP_SECONDS = 10;
+const MIN_START_BYTES = 5 * 1024 * 1024;
+
+interface AdditionalInput {
+  stream: MediaStream;
+  chain: ProcessingChain;
+  label: string;
+}
+
+interface TrackRecorder {
+  track: RecordingTrack;
+  recorder: MediaRecorder;
+  done: Promise<Blob>;
+}
 
 interface AudioRecorderProps {
   onRecordingComplete: (recording: AudioRecording) => void;
@@ -14,15 +78,56 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
     isRecording: false,
     isPaused: false,
     recordingTime: 0,
+    countdown: null,
+    remainingTime: null,
     mediaRecorder: null,
     audioStream: null,
   });
   const [error, setError] = useState<string>('');
   const [permissionGranted, setPermissionGranted] = useState<boolean>(false);
+  // Set once the permission request made on mount has settled either way
+  const [permissionChecked, setPermissionChecked] = useState<boolean>(false);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>('');
+  const [additionalDeviceIds, setAdditionalDeviceIds] = useState<string[]>([]);
+  const [vadSettings, setVadSettings] = useState<VadSettings>(DEFAULT_VAD_SETTINGS);
+  const [vadLevel, setVadLevel] = useState<{ levelDb: number; isSpeech: boolean } | null>(null);
+  const [isAutoPaused, setIsAutoPaused] = useState<boolean>(false);
+  const [quotaWarning, setQuotaWarning] = useState<string>('');
+  const [processingSettings, setProcessingSettings] = useState<ProcessingSettings>(DEFAULT_PROCESSING_SETTINGS);
+  const [markers, setMarkers] = useState<RecordingMarker[]>([]);
+  const [recordingSettings, setRecordingSettings] = useState<RecordingSettings>(DEFAULT_RECORDING_SETTINGS);
+  const [deviceNotice, setDeviceNotice] = useState<string>('');
+  const [micDiagnostics, setMicDiagnostics] = useState<MicDiagnostics | null>(null);
+  const [scheduledStart, setScheduledStart] = useState<Date | null>(null);
+  const [timerNotice, setTimerNotice] = useState<string>('');
 
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const countdownTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Fixed when the take starts, so changing the setting mid-take has no effect
+  const maxDurationRef = useRef<number | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const recordingTimeRef = useRef<number>(0);
+  const lastTickRef = useRef<number>(0);
+  const markersRef = useRef<RecordingMarker[]>([]);
+  const chunkWritesRef = useRef<Promise<void>>(Promise.resolve());
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const vadHandlersRef = useRef<VadCallbacks>({});
+  const processingChainRef = useRef<ProcessingChain | null>(null);
+  // The raw microphone stream feeding the processing chain; replaced when the mic is swapped
+  const inputStreamRef = useRef<MediaStream | null>(null);
+  // Set when the mic vanished and no other input was available to switch to
+  const inputLostRef = useRef<boolean>(false);
+  // Set when the take was paused because of the lost mic, so a new one resumes it
+  const pausedForInputRef = useRef<boolean>(false);
+  // Multi-input takes: the extra inputs, the mixer joining them, and one recorder per track
+  const additionalInputsRef = useRef<AdditionalInput[]>([]);
+  const inputMixerRef = useRef<InputMixer | null>(null);
+  const trackRecordersRef = useRef<TrackRecorder[]>([]);
+  const deviceHandlersRef = useRef<{ onInputLost?: () => void; onDeviceChange?: () => void }>({});
+  const timingHandlersRef = useRef<{ onCountdownEnd?: () => void; onScheduledStart?: () => void }>({});
+  const shortcutHandlersRef = useRef<{ [action in ShortcutAction]?: (isKeyDown: boolean) => void }>({});
+  // Push-to-talk: whether the key is held, and whether the current take was started by it
+  const pushToTalkRef = useRef<{ held: boolean; active: boolean }>({ held: false, active: false });
 
   useEffect(() => {
     // Request microphone permission on component mount
@@ -33,13 +138,167 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
+      if (countdownTimerRef.current) {
+        clearInterval(countdownTimerRef.current);
+      }
       if (recordingState.audioStream) {
         recordingState.audioStream.getTracks().forEach(track => track.stop());
       }
+      processingChainRef.current?.dispose();
     };
   }, []);
 
-  const requestMicrophonePermission = async () => {
+  useEffect(() => {
+    setVadSettings(loadVadSettings());
+    setProcessingSettings(loadProcessingSettings());
+    setRecordingSettings(loadRecordingSettings());
+
+    const savedStart = loadScheduledStart();
+    if (savedStart && savedStart.getTime() < Date.now() - SCHEDULE_GRACE_MS) {
+      saveScheduledStart(null);
+      setTimerNotice(`The recording scheduled for ${savedStart.toLocaleString()} was missed.`);
+    } else {
+      setScheduledStart(savedStart);
+    }
+  }, []);
+
+  useEffect(() => {
+    // A start that fell due during a reload waits for the permission check,
+    // otherwise it would be skipped as if permission had been refused
+    if (!scheduledStart || !permissionChecked) return;
+
+    // Fire early by the countdown so the take itself begins on time. Long waits
+    // are split into several timeouts, since setTimeout cannot span them at once.
+    const fireAt = scheduledStart.getTime() - (recordingSettings.countdown ? COUNTDOWN_SECONDS * 1000 : 0);
+    let timeoutId: NodeJS.Timeout;
+    const arm = () => {
+      const delay = fireAt - Date.now();
+      if (delay <= 0) {
+        timingHandlersRef.current.onScheduledStart?.();
+        return;
+      }
+      timeoutId = setTimeout(arm, Math.min(delay, MAX_TIMER_DELAY_MS));
+    };
+    arm();
+
+    return () => clearTimeout(timeoutId);
+  }, [scheduledStart, permissionChecked, recordingSettings.countdown]);
+
+  useEffect(() => {
+    const { mediaRecorder, remainingTime } = recordingState;
+    if (!mediaRecorder || remainingTime === null || remainingTime > 0) return;
+
+    if (mediaRecorder.state !== 'inactive') {
+      setTimerNotice(`The recording reached its ${formatTime(maxDurationRef.current || 0)} limit and was saved.`);
+      mediaRecorder.stop();
+    }
+  }, [recordingState.remainingTime]);
+
+  useEffect(() => {
+    if (!recordingState.audioStream || !vadSettings.enabled) return;
+
+    // Delegate through a ref so the detector always calls the latest handlers
+    const detector = new VoiceActivityDetector(recordingState.audioStream, vadSettings, {
+      onLevel: (levelDb, isSpeech) => setVadLevel({ levelDb, isSpeech }),
+      onSilence: () => vadHandlersRef.current.onSilence?.(),
+      onSpeech: () => vadHandlersRef.current.onSpeech?.(),
+      onSilenceTimeout: () => vadHandlersRef.current.onSilenceTimeout?.(),
+    });
+    detector.start();
+    vadRef.current = detector;
+
+    return () => {
+      detector.stop();
+      vadRef.current = null;
+      setVadLevel(null);
+    };
+  }, [recordingState.audioStream, vadSettings.enabled]);
+
+  useEffect(() => {
+    vadRef.current?.updateSettings(vadSettings);
+  }, [vadSettings]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      const action = shortcutManager.match(event);
+      const handler = action && shortcutHandlersRef.current[action];
+      if (!handler) return;
+
+      event.preventDefault();
+      // Only push-to-talk cares about key release and auto-repeat
+      if (action === 'pushToTalk') {
+        if (!event.repeat) handler(event.type === 'keydown');
+      } else if (event.type === 'keydown' && !event.repeat) {
+        handler(true);
+      }
+    };
+
+    // Releasing focus while holding the key would otherwise leave push-to-talk stuck on
+    const handleBlur = () => {
+      if (pushToTalkRef.current.held) {
+        shortcutHandlersRef.current.pushToTalk?.(false);
+      }
+    };
+
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleDeviceChange = () => deviceHandlersRef.current.onDeviceChange?.();
+
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    const pushToTalk = pushToTalkRef.current;
+    if (!recordingState.isRecording) {
+      pushToTalk.active = false;
+      return;
+    }
+
+    // The key was released while the recorder was still starting up
+    if (pushToTalk.active && !pushToTalk.held && !recordingState.isPaused) {
+      pauseRecording();
+    }
+  }, [recordingState.isRecording, recordingState.isPaused]);
+
+  useEffect(() => {
+    const mediaRecorder = recordingState.mediaRecorder;
+    if (!mediaRecorder) return;
+
+    const checkQuota = async () => {
+      const recordedBytes = chunksRef.current.reduce((total, chunk) => total + chunk.size, 0);
+      if (recordingTimeRef.current === 0 || recordedBytes === 0) return;
+
+      const remaining = await storageQuotaManager.getRemainingSeconds(recordedBytes / recordingTimeRef.current);
+      if (remaining === null) return;
+
+      if (remaining <= QUOTA_STOP_SECONDS && mediaRecorder.state !== 'inactive') {
+        setQuotaWarning('Storage is full, so the recording was stopped and saved.');
+        mediaRecorder.stop();
+      } else if (remaining <= QUOTA_WARNING_SECONDS) {
+        setQuotaWarning(`Storage is almost full: about ${Math.max(1, Math.floor(remaining / 60))} min of recording left.`);
+      } else {
+        setQuotaWarning('');
+      }
+    };
+
+    const intervalId = setInterval(checkQuota, QUOTA_CHECK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [recordingState.mediaRecorder]);
+
+  // Returns the result as well, since callers in the same render would read stale state
+  const requestMicrophonePermission = async (): Promise<boolean> => {
     try {
       const constraints = selectedDeviceId
         ? { audio: { deviceId: { exact: selectedDeviceId } } }
@@ -49,64 +308,228 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
       setPermissionGranted(true);
       stream.getTracks().forEach(track => track.stop()); // Stop the test stream
       setError('');
+      return true;
     } catch (err) {
       setPermissionGranted(false);
       setError('Microphone permission is required to record audio.');
+      return false;
+    } finally {
+      setPermissionChecked(true);
     }
   };
 
+  const startTimer = () => {
+    lastTickRef.current = performance.now();
+    timerRef.current = setInterval(() => {
+      recordingTimeRef.current += 1;
+      lastTickRef.current = performance.now();
+      setRecordingState(prev => ({
+        ...prev,
+        recordingTime: recordingTimeRef.current,
+        remainingTime: getRemainingTime(),
+      }));
+    }, 1000);
+  };
+
+  const getRemainingTime = (): number | null =>
+    maxDurationRef.current !== null ? Math.max(0, maxDurationRef.current - recordingTimeRef.current) : null;
+
+  // A device whose last diagnostic run heard nothing would only record silence
+  const isMicSilent = micDiagnostics?.isSilent ?? false;
+
+  // Inputs that fail to open are left out rather than blocking the take. They
+  // share the primary chain's context, so every input runs on one clock.
+  const openAdditionalInputs = async (context: AudioContext): Promise<AdditionalInput[]> => {
+    const inputs: AdditionalInput[] = [];
+    for (const deviceId of additionalDeviceIds.filter(id => id !== selectedDeviceId)) {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            ...getTrackConstraints(deviceId, processingSettings),
+            ...getFormatConstraints(recordingSettings),
+          },
+        });
+        inputs.push({
+          stream,
+          chain: new ProcessingChain(stream, processingSettings, {}, context),
+          label: stream.getAudioTracks()[0]?.label || `Input ${inputs.length + 2}`,
+        });
+      } catch (err) {
+        console.error('Additional input error:', err);
+      }
+    }
+    return inputs;
+  };
+
+  const createTrackRecorder = (stream: MediaStream, label: string, index: number): TrackRecorder => {
+    const recorder = new MediaRecorder(stream, getRecorderOptions(recordingSettings));
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const done = new Promise<Blob>((resolve) => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType }));
+    });
+    return { track: { id: `track_${index + 1}`, label, mimeType: '' }, recorder, done };
+  };
+
+  const releaseAdditionalInputs = () => {
+    additionalInputsRef.current.forEach(({ stream, chain }) => {
+      stream.getTracks().forEach(track => track.stop());
+      chain.dispose();
+    });
+    additionalInputsRef.current = [];
+    inputMixerRef.current?.dispose();
+    inputMixerRef.current = null;
+    trackRecordersRef.current = [];
+  };
+
   const startRecording = async () => {
+    if (isMicSilent) {
+      setError('The selected microphone is producing no signal. Pick another one or test it again.');
+      return;
+    }
+
     try {
-      if (!permissionGranted) {
-        await requestMicrophonePermission();
-        if (!permissionGranted) return;
+      if (!permissionGranted && !(await requestMicrophonePermission())) return;
+
+      const remainingBytes = await storageQuotaManager.getRemainingBytes().catch(() => null);
+      if (remainingBytes !== null && remainingBytes < MIN_START_BYTES) {
+        setError('Not enough storage space left to record. Free up space in the storage panel.');
+        return;
+      }
+      if (!audioStorage.isWritable()) {
+        setError('Recording storage could not be opened. Reload the page, or choose to keep recordings in memory.');
+        return;
+      }
+      setQuotaWarning('');
+      setDeviceNotice('');
+      setTimerNotice('');
+
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          ...getTrackConstraints(selectedDeviceId, processingSettings),
+          ...getFormatConstraints(recordingSettings),
+        },
+      });
+
+      // The recorder captures the processed signal, not the raw microphone
+      const processingChain = new ProcessingChain(stream, processingSettings, {
+        sampleRate: recordingSettings.sampleRate ?? undefined,
+        channelCount: recordingSettings.channelCount ?? undefined,
+      });
+      processingChainRef.current = processingChain;
+      if (recordingSettings.sampleRate && processingChain.sampleRate !== recordingSettings.sampleRate) {
+        setDeviceNotice(
+          `This microphone cannot be recorded at ${recordingSettings.sampleRate / 1000} kHz here, ` +
+          `so ${processingChain.sampleRate / 1000} kHz is used.`
+        );
+      }
+      inputStreamRef.current = stream;
+      inputLostRef.current = false;
+      pausedForInputRef.current = false;
+      watchInput(stream);
+      const startedAt = new Date();
+      const deviceLabel = stream.getAudioTracks()[0]?.label || '';
+
+      // With several inputs the recorder captures their mix, and each input also gets its own track
+      let recordedStream = processingChain.outputStream;
+      const additionalInputs = await openAdditionalInputs(processingChain.context);
+      additionalInputsRef.current = additionalInputs;
+      if (additionalInputs.length > 0) {
+        const mixer = new InputMixer(
+          processingChain.context,
+          [processingChain.output, ...additionalInputs.map(input => input.chain.output)],
+          recordingSettings.channelCount ?? undefined,
+        );
+        const labels = [deviceLabel || 'Input 1', ...additionalInputs.map(input => input.label)];
+        inputMixerRef.current = mixer;
+        trackRecordersRef.current = mixer.trackStreams.map((trackStream, i) => createTrackRecorder(trackStream, labels[i], i));
+        recordedStream = mixer.mixStream;
       }
 
-      const constraints = selectedDeviceId
-        ? { audio: { deviceId: { exact: selectedDeviceId } } }
-        : { audio: true };
+      const mediaRecorder = new MediaRecorder(recordedStream, getRecorderOptions(recordingSettings));
 
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
-      const mediaRecorder = new MediaRecorder(stream);
+      const sessionId = `session_${Date.now()}`;
+      let sequence = 0;
 
       chunksRef.current = [];
+      recordingTimeRef.current = 0;
+      maxDurationRef.current = recordingSettings.maxDurationSeconds;
+      updateMarkers([]);
+      chunkWritesRef.current = Promise.resolve();
 
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           chunksRef.current.push(event.data);
+
+          // Persist each chunk as it arrives so the take survives a crash
+          const chunk = {
+            sessionId,
+            sequence: sequence++,
+            blob: event.data,
+            recordingTime: recordingTimeRef.current,
+          };
+          chunkWritesRef.current = chunkWritesRef.current
+            .then(() => audioStorage.appendChunk(chunk))
+            .catch(err => console.error('Chunk persist error:', err));
         }
       };
 
       mediaRecorder.onstop = async () => {
         const audioBlob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType });
-        const duration = recordingState.recordingTime;
+        const duration = recordingTimeRef.current;
+
+        const trackRecorders = trackRecordersRef.current;
+        trackRecorders.forEach(({ recorder }) => {
+          if (recorder.state !== 'inactive') recorder.stop();
+        });
+        const trackBlobs = await Promise.all(trackRecorders.map(({ done }) => done));
+        const tracks = trackRecorders.map(({ track }, i) => ({ ...track, mimeType: trackBlobs[i].type }));
 
         // Create recording object
         const recording: AudioRecording = {
           id: `recording_${Date.now()}`,
-          name: `Recording ${new Date().toLocaleString()}`,
+          name: formatRecordingName(recordingSettings.nameTemplate, { startedAt, device: deviceLabel, duration }),
           blob: audioBlob,
           duration,
           createdAt: new Date(),
           mimeType: mediaRecorder.mimeType,
+          markers: markersRef.current.length > 0 ? markersRef.current : undefined,
+          tracks: tracks.length > 0 ? tracks : undefined,
+          source: 'recorded',
         };
 
         // Save to IndexedDB
         try {
           await audioStorage.saveRecording(recording);
+          for (let i = 0; i < tracks.length; i++) {
+            await audioStorage.saveTrackAudio(recording.id, tracks[i].id, trackBlobs[i]);
+          }
           onRecordingComplete(recording);
+
+          // The recording is safe, so the crash-recovery copy is no longer needed
+          await chunkWritesRef.current;
+          await audioStorage.finishSession(sessionId);
         } catch (err) {
           setError('Failed to save recording');
           console.error('Save error:', err);
         }
 
         // Cleanup
-        stream.getTracks().forEach(track => track.stop());
+        updateMarkers([]);
+        inputStreamRef.current?.getTracks().forEach(track => track.stop());
+        inputStreamRef.current = null;
+        releaseAdditionalInputs();
+        processingChain.dispose();
+        processingChainRef.current = null;
+        setIsAutoPaused(false);
         setRecordingState(prev => ({
           ...prev,
           isRecording: false,
           isPaused: false,
           recordingTime: 0,
+          remainingTime: null,
           mediaRecorder: null,
           audioStream: null,
         }));
@@ -116,31 +539,80 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
         }
       };
 
-      mediaRecorder.start();
+      // Started in the same tick so every track lines up with the mix
+      mediaRecorder.start(CHUNK_INTERVAL_MS);
+      trackRecordersRef.current.forEach(({ recorder }) => recorder.start());
 
-      // Start timer
-      timerRef.current = setInterval(() => {
-        setRecordingState(prev => ({
-          ...prev,
-          recordingTime: prev.recordingTime + 1,
-        }));
-      }, 1000);
+      try {
+        await audioStorage.startSession({
+          id: sessionId,
+          mimeType: mediaRecorder.mimeType,
+          startedAt: new Date(),
+        });
+      } catch (err) {
+        console.error('Session persist error:', err);
+      }
+
+      startTimer();
 
       setRecordingState(prev => ({
         ...prev,
         isRecording: true,
         isPaused: false,
+        remainingTime: getRemainingTime(),
         mediaRecorder,
-        audioStream: stream,
+        // The level meter and voice detection follow what is recorded, i.e. every input
+        audioStream: recordedStream,
       }));
 
       setError('');
     } catch (err) {
+      releaseAdditionalInputs();
       setError('Failed to start recording. Please check microphone permissions.');
       console.error('Recording error:', err);
     }
   };
 
+  // Counts down before starting when enabled; otherwise starts straight away
+  const beginRecording = () => {
+    if (!recordingSettings.countdown) {
+      startRecording();
+      return;
+    }
+
+    let remaining = COUNTDOWN_SECONDS;
+    setRecordingState(prev => ({ ...prev, countdown: remaining }));
+    countdownTimerRef.current = setInterval(() => {
+      remaining -= 1;
+      if (remaining > 0) {
+        setRecordingState(prev => ({ ...prev, countdown: remaining }));
+        return;
+      }
+
+      clearCountdown();
+      timingHandlersRef.current.onCountdownEnd?.();
+    }, 1000);
+  };
+
+  const clearCountdown = () => {
+    if (countdownTimerRef.current) {
+      clearInterval(countdownTimerRef.current);
+      countdownTimerRef.current = null;
+    }
+    setRecordingState(prev => ({ ...prev, countdown: null }));
+  };
+
+  const scheduleRecording = (startAt: Date) => {
+    saveScheduledStart(startAt);
+    setScheduledStart(startAt);
+    setTimerNotice('');
+  };
+
+  const cancelSchedule = () => {
+    saveScheduledStart(null);
+    setScheduledStart(null);
+  };
+
   const stopRecording = () => {
     if (recordingState.mediaRecorder && recordingState.isRecording) {
       recordingState.mediaRecorder.stop();
@@ -150,6 +622,7 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
   const pauseRecording = () => {
     if (recordingState.mediaRecorder && recordingState.isRecording) {
       recordingState.mediaRecorder.pause();
+      trackRecordersRef.current.forEach(({ recorder }) => recorder.pause());
       setRecordingState(prev => ({ ...prev, isPaused: true }));
 
       if (timerRef.current) {
@@ -161,18 +634,181 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
   const resumeRecording = () => {
     if (recordingState.mediaRecorder && recordingState.isPaused) {
       recordingState.mediaRecorder.resume();
+      trackRecordersRef.current.forEach(({ recorder }) => recorder.resume());
       setRecordingState(prev => ({ ...prev, isPaused: false }));
+      setIsAutoPaused(false);
+      pausedForInputRef.current = false;
+      vadRef.current?.reset();
 
-      // Resume timer
-      timerRef.current = setInterval(() => {
-        setRecordingState(prev => ({
-          ...prev,
-          recordingTime: prev.recordingTime + 1,
-        }));
-      }, 1000);
+      startTimer();
     }
   };
 
+  const updateMarkers = (updated: RecordingMarker[]) => {
+    markersRef.current = updated;
+    setMarkers(updated);
+  };
+
+  // The timer ticks whole seconds, so add the time since the last tick for a precise offset
+  const getElapsedTime = (): number => {
+    const sinceTick = recordingState.isPaused ? 0 : Math.min(1, (performance.now() - lastTickRef.current) / 1000);
+    return recordingTimeRef.current + sinceTick;
+  };
+
+  const addMarker = () => {
+    if (!recordingState.isRecording) return;
+    updateMarkers([...markersRef.current, createMarker(getElapsedTime())]);
+  };
+
+  // An unplugged mic ends its track; route through the ref so the latest state is used
+  const watchInput = (stream: MediaStream) => {
+    stream.getAudioTracks()[0]?.addEventListener('ended', () => deviceHandlersRef.current.onInputLost?.());
+  };
+
+  // Moves the take onto another microphone without stopping the MediaRecorder,
+  // leaving a marker where the switch happened
+  const switchInput = async () => {
+    const processingChain = processingChainRef.current;
+    const lostStream = inputStreamRef.current;
+    if (!processingChain || !lostStream) return;
+
+    const lostLabel = lostStream.getAudioTracks()[0]?.label || 'The microphone';
+    const devices = await audioDeviceManager.getAudioInputDevices();
+    const fallback = audioDeviceManager.pickPreferred(devices, recordingSettings.defaultDevice);
+
+    try {
+      if (!fallback) throw new Error('No microphone available');
+
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          ...getTrackConstraints(fallback.deviceId, processingSettings),
+          ...getFormatConstraints(recordingSettings),
+        },
+      });
+      // The recording may have stopped while the new mic was opening
+      if (processingChainRef.current !== processingChain) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      processingChain.replaceInput(stream);
+      lostStream.getTracks().forEach(track => track.stop());
+      inputStreamRef.current = stream;
+      inputLostRef.current = false;
+      watchInput(stream);
+
+      updateMarkers([...markersRef.current, createMarker(getElapsedTime(), `Switched to ${fallback.label}`)]);
+      setSelectedDeviceId(fallback.deviceId);
+
+      // A take the user paused themselves stays paused
+      if (pausedForInputRef.current) {
+        resumeRecording();
+        setDeviceNotice(`${lostLabel} was disconnected. Switched to ${fallback.label} and resumed recording.`);
+      } else {
+        setDeviceNotice(`${lostLabel} was disconnected. Switched to ${fallback.label}.`);
+      }
+    } catch (err) {
+      console.error('Microphone switch error:', err);
+      inputLostRef.current = true;
+      if (!recordingState.isPaused) {
+        pausedForInputRef.current = true;
+        pauseRecording();
+      }
+      setDeviceNotice(pausedForInputRef.current
+        ? `${lostLabel} was disconnected and no other microphone could be opened. Recording is paused and resumes when one is connected.`
+        : `${lostLabel} was disconnected and no other microphone could be opened. Connect one before resuming.`);
+    }
+  };
+
+  deviceHandlersRef.current = {
+    onInputLost: () => {
+      if (recordingState.isRecording) switchInput();
+    },
+    onDeviceChange: () => {
+      if (inputLostRef.current && recordingState.isRecording) switchInput();
+    },
+  };
+
+  vadHandlersRef.current = {
+    onSilence: () => {
+      if (recordingState.isRecording && !recordingState.isPaused) {
+        pauseRecording();
+        setIsAutoPaused(true);
+      }
+    },
+    onSpeech: () => {
+      if (isAutoPaused) {
+        resumeRecording();
+      }
+    },
+    onSilenceTimeout: () => stopRecording(),
+  };
+
+  const isIdle = !recordingState.isRecording && !recordingState.isPaused && recordingState.countdown === null;
+
+  timingHandlersRef.current = {
+    onCountdownEnd: () => startRecording(),
+    onScheduledStart: () => {
+      cancelSchedule();
+      if (!isIdle) {
+        setTimerNotice('The scheduled recording was skipped because a recording was already running.');
+      } else if (!permissionGranted) {
+        setTimerNotice('The scheduled recording could not start without microphone permission.');
+      } else {
+        beginRecording();
+      }
+    },
+  };
+
+  shortcutHandlersRef.current = {
+    record: () => {
+      if (isIdle && permissionGranted) beginRecording();
+    },
+    pauseResume: () => {
+      if (recordingState.isPaused) {
+        resumeRecording();
+      } else {
+        pauseRecording();
+      }
+    },
+    stop: () => stopRecording(),
+    marker: () => addMarker(),
+    pushToTalk: (isKeyDown) => {
+      const pushToTalk = pushToTalkRef.current;
+      pushToTalk.held = isKeyDown;
+
+      if (isKeyDown) {
+        if (isIdle && permissionGranted) {
+          pushToTalk.active = true;
+          startRecording();
+        } else if (recordingState.isPaused) {
+          pushToTalk.active = true;
+          resumeRecording();
+        }
+      } else if (pushToTalk.active && !recordingState.isPaused) {
+        // Releasing pauses rather than stops, so several holds build one take
+        pauseRecording();
+      }
+    },
+  };
+
+  const handleProcessingSettingsChange = (settings: ProcessingSettings) => {
+    setProcessingSettings(settings);
+    saveProcessingSettings(settings);
+    processingChainRef.current?.update(settings);
+    additionalInputsRef.current.forEach(({ chain }) => chain.update(settings));
+  };
+
+  const handleRecordingSettingsChange = (settings: RecordingSettings) => {
+    setRecordingSettings(settings);
+    saveRecordingSettings(settings);
+  };
+
+  const handleVadSettingsChange = (settings: VadSettings) => {
+    setVadSettings(settings);
+    saveVadSettings(settings);
+  };
+
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -184,28 +820,68 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
       <MicrophoneSelector
         selectedDeviceId={selectedDeviceId}
         onDeviceChange={setSelectedDeviceId}
+        onDiagnosticsChange={setMicDiagnostics}
+        additionalDeviceIds={additionalDeviceIds}
+        onAdditionalDevicesChange={setAdditionalDeviceIds}
+        disabled={recordingState.isRecording || recordingState.isPaused}
+      />
+
+      <ProcessingControls
+        settings={processingSettings}
+        onChange={handleProcessingSettingsChange}
+        isRecording={recordingState.isRecording}
+      />
+
+      <RecordingSettingsPanel
+        settings={recordingSettings}
+        onChange={handleRecordingSettingsChange}
         disabled={recordingState.isRecording || recordingState.isPaused}
       />
 
       <div className="recorder-status">
+        {recordingState.countdown !== null && (
+          <div className="countdown-indicator">{recordingState.countdown}</div>
+        )}
         {recordingState.isRecording && (
           <div className="recording-indicator">
             <span className="pulse-dot"></span>
             <span>Recording: {formatTime(recordingState.recordingTime)}</span>
+            {recordingState.remainingTime !== null && (
+              <span className="remaining-time">{formatTime(recordingState.remainingTime)} left</span>
+            )}
           </div>
         )}
         {recordingState.isPaused && (
           <div className="paused-indicator">
-            <span>Paused: {formatTime(recordingState.recordingTime)}</span>
+            <span>
+              {isAutoPaused ? 'Paused (silence)' : 'Paused'}: {formatTime(recordingState.recordingTime)}
+            </span>
           </div>
         )}
       </div>
 
+      {recordingState.audioStream && (
+        <LevelMeter stream={recordingState.audioStream} />
+      )}
+
+      <VadControls
+        settings={vadSettings}
+        onChange={handleVadSettingsChange}
+        levelDb={vadLevel?.levelDb ?? null}
+        isSpeech={vadLevel?.isSpeech ?? false}
+      />
+
       <div className="recorder-controls">
-        {!recordingState.isRecording && !recordingState.isPaused && (
+        {recordingState.countdown !== null && (
+          <button onClick={clearCountdown} className="stop-button">
+            ✕ Cancel
+          </button>
+        )}
+
+        {isIdle && (
           <button
-            onClick={startRecording}
-            disabled={!permissionGranted}
+            onClick={beginRecording}
+            disabled={!permissionGranted || isMicSilent}
             className="record-button"
           >
             🎤 Start Recording
@@ -217,6 +893,13 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
             <button onClick={pauseRecording} className="pause-button">
               ⏸️ Pause
             </button>
+            <button
+              onClick={addMarker}
+              className="marker-button"
+              title={`Drop a marker (${formatKey(shortcutManager.getBindings().marker)})`}
+            >
+              📍 Marker
+            </button>
             <button onClick={stopRecording} className="stop-button">
               ⏹️ Stop
             </button>
@@ -228,6 +911,13 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
             <button onClick={resumeRecording} className="resume-button">
               ▶️ Resume
             </button>
+            <button
+              onClick={addMarker}
+              className="marker-button"
+              title={`Drop a marker (${formatKey(shortcutManager.getBindings().marker)})`}
+            >
+              📍 Marker
+            </button>
             <button onClick={stopRecording} className="stop-button">
               ⏹️ Stop
             </button>
@@ -235,11 +925,45 @@ export default function AudioRecorder({ onRecordingComplete }: AudioRecorderProp
         )}
       </div>
 
+      {(isIdle || scheduledStart) && (
+        <RecordingScheduler
+          scheduledStart={scheduledStart}
+          onSchedule={scheduleRecording}
+          onCancel={cancelSchedule}
+          disabled={!permissionGranted}
+        />
+      )}
+
+      {markers.length > 0 && (
+        <div className="recorder-markers">
+          <h4>Markers in this take</h4>
+          <MarkerList markers={markers} onChange={updateMarkers} />
+        </div>
+      )}
+
+      {deviceNotice && (
+        <div className="device-notice">
+          🎤 {deviceNotice}
+        </div>
+      )}
+
+      {timerNotice && (
+        <div className="timer-notice">
+          ⏱️ {timerNotice}
+        </div>
+      )}
+
+      {quotaWarning && (
+        <div className="quota-warning">
+          ⚠️ {quotaWarning}
+        </div>
+      )}
+
       {error && (
         <div className="error-message">
           {error}
           {!permissionGranted && (
-            <button onClick={requestMicrophonePermission} className="retry-button">
+            <button onClick={() => requestMicrophonePermission()} className="retry-button">
               Grant Permission
             </button>
           )}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { IMPORT_ACCEPT } from '../lib/audioImport';
+
+interface ImportDropZoneProps {
+  onFiles: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+const hasFiles = (event: DragEvent): boolean => !!event.dataTransfer?.types.includes('Files');
+
+// Accepts audio files dropped anywhere on the page, or picked with the button
+export default function ImportDropZone({ onFiles, disabled = false }: ImportDropZoneProps) {
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const onFilesRef = useRef(onFiles);
+  onFilesRef.current = onFiles;
+  const disabledRef = useRef(disabled);
+  disabledRef.current = disabled;
+  // Files dropped while an import runs, handed over once it finishes
+  const queuedFilesRef = useRef<File[]>([]);
+
+  useEffect(() => {
+    if (disabled || queuedFilesRef.current.length === 0) return;
+
+    const files = queuedFilesRef.current;
+    queuedFilesRef.current = [];
+    onFilesRef.current(files);
+  }, [disabled]);
+
+  // Stays attached while disabled, since a drop left unhandled makes the
+  // browser open the file in place of the app
+  useEffect(() => {
+    // dragenter and dragleave fire for every child element, so count them
+    let depth = 0;
+
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      depth++;
+      setIsDragging(true);
+    };
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setIsDragging(false);
+    };
+    // Without this the browser opens the dropped file in place of the app
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      if (event.dataTransfer) event.dataTransfer.dropEffect = 'copy';
+    };
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault();
+      depth = 0;
+      setIsDragging(false);
+
+      const files = Array.from(event.dataTransfer?.files || []);
+      if (files.length === 0) return;
+      if (disabledRef.current) {
+        queuedFilesRef.current.push(...files);
+      } else {
+        onFilesRef.current(files);
+      }
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('drop', handleDrop);
+      setIsDragging(false);
+    };
+  }, []);
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    // Clear the input so picking the same file again still fires a change
+    event.target.value = '';
+    if (files.length > 0) onFiles(files);
+  };
+
+  return (
+    <div className="import-drop-zone">
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        className="import-button"
+      >
+        📂 Import audio files
+      </button>
+      <span className="import-hint">or drop WAV, MP3, M4A, OGG or WebM files anywhere on the page</span>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={`${IMPORT_ACCEPT},audio/*`}
+        multiple
+        onChange={handleInputChange}
+        hidden
+      />
+
+      {isDragging && (
+        <div className="import-overlay">
+          <div>
+            {disabled
+              ? 'Drop audio files to import them after the current ones'
+              : 'Drop audio files to add them to your library'}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
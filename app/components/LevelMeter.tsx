@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface LevelMeterProps {
+  stream: MediaStream | null;
+}
+
+const MIN_DB = -60;
+const CLIP_THRESHOLD = 0.99;
+const PEAK_HOLD_MS = 1500;
+const CLIP_WARNING_MS = 2000;
+
+const toDb = (value: number): number => (value > 0 ? 20 * Math.log10(value) : MIN_DB);
+const toPercent = (db: number): number => Math.max(0, Math.min(100, ((db - MIN_DB) / -MIN_DB) * 100));
+
+export default function LevelMeter({ stream }: LevelMeterProps) {
+  const [level, setLevel] = useState<number>(MIN_DB);
+  const [peak, setPeak] = useState<number>(MIN_DB);
+  const [isClipping, setIsClipping] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!stream) return;
+
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(stream);
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    let heldPeak = MIN_DB;
+    let heldPeakAt = 0;
+    let clippedAt = 0;
+    let frameId = 0;
+
+    const update = () => {
+      analyser.getFloatTimeDomainData(samples);
+
+      let sumSquares = 0;
+      let framePeak = 0;
+      for (let i = 0; i < samples.length; i++) {
+        const value = Math.abs(samples[i]);
+        sumSquares += value * value;
+        if (value > framePeak) framePeak = value;
+      }
+
+      const now = performance.now();
+      const peakDb = toDb(framePeak);
+      if (peakDb >= heldPeak || now - heldPeakAt > PEAK_HOLD_MS) {
+        heldPeak = peakDb;
+        heldPeakAt = now;
+      }
+      if (framePeak >= CLIP_THRESHOLD) {
+        clippedAt = now;
+      }
+
+      setLevel(toDb(Math.sqrt(sumSquares / samples.length)));
+      setPeak(heldPeak);
+      setIsClipping(clippedAt > 0 && now - clippedAt < CLIP_WARNING_MS);
+
+      frameId = requestAnimationFrame(update);
+    };
+
+    update();
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      source.disconnect();
+      audioContext.close();
+    };
+  }, [stream]);
+
+  return (
+    <div className="level-meter">
+      <div className={`level-meter-track ${isClipping ? 'clipping' : ''}`}>
+        <div className="level-meter-fill" style={{ width: `${toPercent(level)}%` }} />
+        <div className="level-meter-peak" style={{ left: `${toPercent(peak)}%` }} />
+      </div>
+      <div className="level-meter-readout">
+        <span>Peak {peak <= MIN_DB ? '-∞' : peak.toFixed(1)} dB</span>
+        {isClipping && <span className="clip-warning">⚠️ Input is clipping</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { audioExporter } from '../lib/audioExport';
+import {
+  BackupValidationError,
+  ConflictStrategy,
+  ParsedBackup,
+  libraryBackup,
+} from '../lib/libraryBackup';
+
+interface LibraryBackupPanelProps {
+  onRecordingsChange: () => void;
+}
+
+export default function LibraryBackupPanel({ onRecordingsChange }: LibraryBackupPanelProps) {
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [pendingImport, setPendingImport] = useState<ParsedBackup | null>(null);
+  const [strategy, setStrategy] = useState<ConflictStrategy>('skip');
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const handleExport = async () => {
+    try {
+      setError('');
+      setMessage('');
+      setExportProgress(0);
+
+      const archive = await libraryBackup.exportLibrary(setExportProgress);
+      audioExporter.downloadBlob(archive, libraryBackup.getExportFilename());
+    } catch (err) {
+      setError('Failed to export library');
+      console.error('Library export error:', err);
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setError('');
+      setMessage('');
+      setPendingImport(await libraryBackup.readArchive(file));
+    } catch (err) {
+      setError(err instanceof BackupValidationError ? err.message : 'Failed to read archive');
+      console.error('Library import error:', err);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pendingImport) return;
+
+    try {
+      setIsImporting(true);
+      const result = await libraryBackup.importArchive(pendingImport, strategy);
+      setMessage(
+        `Imported ${result.added} recording${result.added !== 1 ? 's' : ''}` +
+        (result.overwritten ? `, overwrote ${result.overwritten}` : '') +
+        (result.skipped ? `, skipped ${result.skipped}` : '') + '.'
+      );
+      setPendingImport(null);
+      onRecordingsChange();
+    } catch (err) {
+      setError('Failed to import recordings');
+      console.error('Library import error:', err);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="backup-panel">
+      <div className="backup-actions">
+        <button onClick={handleExport} disabled={exportProgress !== null} className="backup-button">
+          {exportProgress !== null ? `Exporting ${Math.round(exportProgress * 100)}%...` : '📦 Export library'}
+        </button>
+        <label className="backup-button">
+          📥 Import library
+          <input type="file" accept=".zip,application/zip" onChange={handleFileSelected} hidden />
+        </label>
+      </div>
+
+      {pendingImport && (
+        <div className="backup-import">
+          <p>
+            {pendingImport.manifest.recordings.length} recording
+            {pendingImport.manifest.recordings.length !== 1 ? 's' : ''} found
+            {pendingImport.conflictIds.length > 0 &&
+              `, ${pendingImport.conflictIds.length} already in your library`}.
+          </p>
+
+          {pendingImport.conflictIds.length > 0 && (
+            <div className="backup-strategy">
+              <span>When a recording already exists:</span>
+              {([
+                ['skip', 'Skip it'],
+                ['overwrite', 'Overwrite it'],
+                ['keep-both', 'Keep both'],
+              ] as [ConflictStrategy, string][]).map(([value, label]) => (
+                <label key={value}>
+                  <input
+                    type="radio"
+                    name="conflict-strategy"
+                    value={value}
+                    checked={strategy === value}
+                    onChange={() => setStrategy(value)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="backup-actions">
+            <button onClick={handleImport} disabled={isImporting} className="backup-button">
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+            <button onClick={() => setPendingImport(null)} disabled={isImporting} className="backup-cancel">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="backup-message">{message}</p>}
+      {error && <p className="backup-error">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RecordingMarker } from '../types/audio';
+import { getMarkerLabel, sortMarkers } from '../lib/markers';
+
+interface MarkerListProps {
+  markers: RecordingMarker[];
+  onChange: (markers: RecordingMarker[]) => void;
+  onJump?: (time: number) => void;
+  activeTime?: number;
+}
+
+export default function MarkerList({ markers, onChange, onJump, activeTime }: MarkerListProps) {
+  // Labels are edited locally and saved on blur, not on every keystroke
+  const [drafts, setDrafts] = useState<{ [id: string]: string }>({});
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(markers.map(marker => [marker.id, marker.label])));
+  }, [markers]);
+
+  const commitLabel = (marker: RecordingMarker) => {
+    const label = (drafts[marker.id] ?? '').trim();
+    if (label !== marker.label) {
+      onChange(markers.map(m => (m.id === marker.id ? { ...m, label } : m)));
+    }
+  };
+
+  const formatTime = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  const sorted = sortMarkers(markers);
+  // The marker whose section is playing: the last one at or before the playhead
+  const activeId = activeTime === undefined
+    ? null
+    : [...sorted].reverse().find(marker => marker.time <= activeTime)?.id ?? null;
+
+  return (
+    <ul className="marker-list">
+      {sorted.map((marker, i) => (
+        <li key={marker.id} className={marker.id === activeId ? 'active' : ''}>
+          {onJump ? (
+            <button onClick={() => onJump(marker.time)} className="marker-time" title="Jump to marker">
+              📍 {formatTime(marker.time)}
+            </button>
+          ) : (
+            <span className="marker-time">📍 {formatTime(marker.time)}</span>
+          )}
+          <input
+            type="text"
+            value={drafts[marker.id] ?? marker.label}
+            placeholder={getMarkerLabel(marker, i)}
+            onChange={(e) => setDrafts(prev => ({ ...prev, [marker.id]: e.target.value }))}
+            onBlur={() => commitLabel(marker)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+            }}
+          />
+          <button
+            onClick={() => onChange(markers.filter(m => m.id !== marker.id))}
+            className="marker-delete"
+            title="Delete marker"
+          >
+            ✕
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,22 +1,66 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { AudioDevice, audioDeviceManager } from '../lib/audioDevices';
+import { useState, useEffect, useRef } from 'react';
+import { AudioDevice, audioDeviceManager, findDevice } from '../lib/audioDevices';
+import { loadRecordingSettings } from '../lib/recordingSettings';
+import {
+  DIAGNOSTIC_DURATION_MS,
+  MIN_DB,
+  MicDiagnostics,
+  getDiagnosticWarnings,
+  micDiagnostics,
+} from '../lib/micDiagnostics';
 
 interface MicrophoneSelectorProps {
   selectedDeviceId: string;
   onDeviceChange: (deviceId: string) => void;
+  // Reports the latest diagnostic result for the selected device, or null if untested
+  onDiagnosticsChange?: (result: MicDiagnostics | null) => void;
+  // Extra inputs recorded at the same time, each onto its own track
+  additionalDeviceIds?: string[];
+  onAdditionalDevicesChange?: (deviceIds: string[]) => void;
   disabled?: boolean;
 }
 
+// Chrome lists aliases of real devices under these ids; recording one alongside its device would capture it twice
+const VIRTUAL_DEVICE_IDS = ['default', 'communications'];
+
+const formatDb = (db: number): string => (db <= MIN_DB ? '-∞ dB' : `${db.toFixed(1)} dB`);
+
 export default function MicrophoneSelector({
   selectedDeviceId,
   onDeviceChange,
+  onDiagnosticsChange,
+  additionalDeviceIds = [],
+  onAdditionalDevicesChange,
   disabled = false
 }: MicrophoneSelectorProps) {
   const [devices, setDevices] = useState<AudioDevice[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
+  const [notice, setNotice] = useState<string>('');
+  const [diagnostics, setDiagnostics] = useState<MicDiagnostics | null>(null);
+  const [testProgress, setTestProgress] = useState<{ elapsed: number; levelDb: number } | null>(null);
+  const [isPlayingBack, setIsPlayingBack] = useState<boolean>(false);
+  const playbackRef = useRef<HTMLAudioElement | null>(null);
+
+  // Read from the devicechange listener, which would otherwise see stale props
+  const selectedDeviceRef = useRef<AudioDevice | null>(null);
+  const disabledRef = useRef<boolean>(disabled);
+  disabledRef.current = disabled;
+
+  useEffect(() => {
+    const selected = devices.find(d => d.deviceId === selectedDeviceId);
+    if (selected) selectedDeviceRef.current = selected;
+  }, [devices, selectedDeviceId]);
+
+  useEffect(() => {
+    const result = micDiagnostics.getResult(selectedDeviceId);
+    setDiagnostics(result);
+    onDiagnosticsChange?.(result);
+  }, [selectedDeviceId]);
+
+  useEffect(() => () => stopPlayback(), []);
 
   useEffect(() => {
     loadDevices();
@@ -41,16 +85,25 @@ export default function MicrophoneSelector({
       const audioDevices = await audioDeviceManager.getAudioInputDevices();
       setDevices(audioDevices);
 
-      // If no device is selected and we have devices available, select the first one
-      if (!selectedDeviceId && audioDevices.length > 0) {
-        onDeviceChange(audioDevices[0].deviceId);
-      }
+      if (audioDevices.length === 0) return;
 
-      // If the currently selected device is no longer available, switch to the first available
-      if (selectedDeviceId && !audioDevices.find(d => d.deviceId === selectedDeviceId) && audioDevices.length > 0) {
-        onDeviceChange(audioDevices[0].deviceId);
+      // Follow the selected mic across id changes by matching its label and group
+      const current = findDevice(audioDevices, selectedDeviceRef.current);
+      if (current) {
+        selectedDeviceRef.current = current;
+        onDeviceChange(current.deviceId);
+        return;
       }
 
+      // While recording, the recorder switches inputs itself
+      if (disabledRef.current) return;
+
+      const preferred = audioDeviceManager.pickPreferred(audioDevices, loadRecordingSettings().defaultDevice)!;
+      if (selectedDeviceRef.current) {
+        setNotice(`${selectedDeviceRef.current.label} was disconnected. Switched to ${preferred.label}.`);
+      }
+      selectedDeviceRef.current = preferred;
+      onDeviceChange(preferred.deviceId);
     } catch (err) {
       setError('Failed to load microphone devices');
       console.error('Error loading devices:', err);
@@ -59,24 +112,68 @@ export default function MicrophoneSelector({
     }
   };
 
-  const handleDeviceSelect = async (deviceId: string) => {
+  // Switching only picks up an earlier check of the mic (see the effect above);
+  // a new one runs from the 🩺 button so choosing a mic never holds up recording
+  const handleDeviceSelect = (deviceId: string) => {
     if (disabled) return;
 
-    try {
-      setError('');
+    setError('');
+    setNotice('');
+    const device = devices.find(d => d.deviceId === deviceId);
+    if (device) audioDeviceManager.rememberDevice(device);
+    onDeviceChange(deviceId);
+  };
 
-      // Test the device before switching
-      const isWorking = await audioDeviceManager.testDevice(deviceId);
+  const runDiagnostics = async (deviceId: string = selectedDeviceId) => {
+    if (disabled || testProgress) return;
 
-      if (isWorking) {
-        onDeviceChange(deviceId);
-      } else {
-        setError('Selected microphone is not working properly');
+    stopPlayback();
+    setError('');
+    setTestProgress({ elapsed: 0, levelDb: MIN_DB });
+    try {
+      const result = await micDiagnostics.run(deviceId, setTestProgress);
+      if (selectedDeviceRef.current?.deviceId === deviceId) {
+        setDiagnostics(result);
+        onDiagnosticsChange?.(result);
       }
     } catch (err) {
-      setError('Failed to switch to selected microphone');
-      console.error('Error selecting device:', err);
+      setError('Failed to open the selected microphone');
+      console.error('Error testing device:', err);
+    } finally {
+      setTestProgress(null);
+    }
+  };
+
+  const stopPlayback = () => {
+    const audio = playbackRef.current;
+    if (audio) {
+      audio.pause();
+      URL.revokeObjectURL(audio.src);
+      playbackRef.current = null;
+    }
+    setIsPlayingBack(false);
+  };
+
+  const playBack = () => {
+    if (!diagnostics?.recording) return;
+    if (isPlayingBack) {
+      stopPlayback();
+      return;
     }
+
+    const audio = new Audio(URL.createObjectURL(diagnostics.recording));
+    audio.onended = stopPlayback;
+    playbackRef.current = audio;
+    setIsPlayingBack(true);
+    audio.play().catch((err) => {
+      console.error('Playback error:', err);
+      stopPlayback();
+    });
+  };
+
+  const toggleAdditionalDevice = (deviceId: string, checked: boolean) => {
+    const others = additionalDeviceIds.filter(id => id !== deviceId);
+    onAdditionalDevicesChange?.(checked ? [...others, deviceId] : others);
   };
 
   const refreshDevices = () => {
@@ -108,6 +205,11 @@ export default function MicrophoneSelector({
     );
   }
 
+  const additionalCandidates = devices.filter(d =>
+    d.deviceId !== selectedDeviceId && !VIRTUAL_DEVICE_IDS.includes(d.deviceId)
+  );
+  const selectedAdditional = additionalCandidates.filter(d => additionalDeviceIds.includes(d.deviceId));
+
   return (
     <div className="microphone-selector">
       <div className="selector-label">
@@ -137,8 +239,82 @@ export default function MicrophoneSelector({
         >
           🔄
         </button>
+
+        <button
+          onClick={() => runDiagnostics()}
+          className="refresh-button"
+          title="Test this microphone"
+          disabled={disabled || testProgress !== null}
+        >
+          🩺
+        </button>
       </div>
 
+      {onAdditionalDevicesChange && additionalCandidates.length > 0 && (
+        <details className="additional-inputs">
+          <summary>
+            Record more inputs at once
+            {selectedAdditional.length > 0 && ` (${selectedAdditional.length} selected)`}
+          </summary>
+          {additionalCandidates.map((device) => (
+            <label key={device.deviceId}>
+              <input
+                type="checkbox"
+                checked={additionalDeviceIds.includes(device.deviceId)}
+                onChange={(e) => toggleAdditionalDevice(device.deviceId, e.target.checked)}
+                disabled={disabled}
+              />
+              {device.label}
+            </label>
+          ))}
+        </details>
+      )}
+
+      {testProgress && (
+        <div className="mic-test-progress">
+          <span>Say something... {Math.ceil((DIAGNOSTIC_DURATION_MS - testProgress.elapsed) / 1000)}s</span>
+          <div className="level-meter-track">
+            <div
+              className="level-meter-fill"
+              style={{ width: `${Math.max(0, Math.min(100, ((testProgress.levelDb + 60) / 60) * 100))}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {diagnostics && !testProgress && (
+        <div className={`mic-diagnostics ${diagnostics.isSilent ? 'failed' : ''}`}>
+          <dl>
+            <dt>Level</dt><dd>{formatDb(diagnostics.rmsDb)}</dd>
+            <dt>Peak</dt><dd>{formatDb(diagnostics.peakDb)}</dd>
+            <dt>Noise floor</dt><dd>{formatDb(diagnostics.noiseFloorDb)}</dd>
+            <dt>Clipping</dt><dd>{(diagnostics.clippedRatio * 100).toFixed(2)}%</dd>
+            <dt>DC offset</dt><dd>{diagnostics.dcOffset.toFixed(4)}</dd>
+            <dt>Format</dt>
+            <dd>
+              {diagnostics.sampleRate ? `${diagnostics.sampleRate} Hz` : 'Unknown rate'},{' '}
+              {diagnostics.channelCount ? `${diagnostics.channelCount} ch` : 'unknown channels'}
+            </dd>
+          </dl>
+
+          {getDiagnosticWarnings(diagnostics).map((warning) => (
+            <div key={warning} className="mic-diagnostics-warning">⚠️ {warning}</div>
+          ))}
+
+          {diagnostics.recording && (
+            <button onClick={playBack} className="refresh-button" disabled={disabled}>
+              {isPlayingBack ? '⏹️ Stop' : '▶️ Play back what you said'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {notice && (
+        <div className="device-notice">
+          {notice}
+        </div>
+      )}
+
       {error && (
         <div className="device-error">
           {error}
@@ -0,0 +1,249 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { RecordingMetadata, RecordingTrack } from '../types/audio';
+import { audioDeviceManager } from '../lib/audioDevices';
+import { getTrackConstraints, loadProcessingSettings } from '../lib/audioProcessing';
+import { loadRecordingSettings } from '../lib/recordingSettings';
+import { playbackController } from '../lib/playbackController';
+import {
+  OverdubLayer,
+  OverdubSession,
+  loadLatencyOverride,
+  saveLatencyOverride,
+  saveMixdown,
+} from '../lib/overdub';
+import TrackMixer from './TrackMixer';
+
+interface OverdubStudioProps {
+  recording: RecordingMetadata;
+  onSaved: (recording: RecordingMetadata) => void;
+  onClose: () => void;
+}
+
+type OverdubStatus = 'loading' | 'idle' | 'previewing' | 'recording' | 'saving';
+
+const toggleId = (ids: string[], id: string): string[] =>
+  ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id];
+
+export default function OverdubStudio({ recording, onSaved, onClose }: OverdubStudioProps) {
+  const [layers, setLayers] = useState<OverdubLayer[]>([]);
+  const [mutedTracks, setMutedTracks] = useState<string[]>([]);
+  const [soloTracks, setSoloTracks] = useState<string[]>([]);
+  const [status, setStatus] = useState<OverdubStatus>('loading');
+  const [latencyOverride, setLatencyOverride] = useState<number | null>(loadLatencyOverride);
+  const [measuredLatency, setMeasuredLatency] = useState<number | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const sessionRef = useRef<OverdubSession | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  useEffect(() => {
+    const session = new OverdubSession();
+    sessionRef.current = session;
+    let cancelled = false;
+
+    session.loadLayers(recording)
+      .then((loaded) => {
+        if (cancelled) return;
+        setLayers(loaded);
+        setStatus('idle');
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError('Failed to load recording for overdubbing');
+        console.error('Overdub load error:', err);
+      });
+
+    return () => {
+      cancelled = true;
+      releaseStream();
+      session.dispose();
+      sessionRef.current = null;
+    };
+  }, [recording.id]);
+
+  const releaseStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  const openMicrophone = async (): Promise<MediaStream> => {
+    const devices = await audioDeviceManager.getAudioInputDevices();
+    const device = audioDeviceManager.pickPreferred(devices, loadRecordingSettings().defaultDevice);
+    return navigator.mediaDevices.getUserMedia({
+      audio: {
+        ...getTrackConstraints(device?.deviceId || '', loadProcessingSettings()),
+        // Headphones keep the backing audio out of the mic, and cancellation adds latency
+        echoCancellation: false,
+      },
+    });
+  };
+
+  const startTake = async () => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    try {
+      setError('');
+      playbackController.pause();
+      const stream = await openMicrophone();
+      streamRef.current = stream;
+
+      const measured = session.estimateLatency(stream.getAudioTracks()[0]);
+      setMeasuredLatency(measured);
+      const latency = latencyOverride !== null ? latencyOverride / 1000 : measured;
+
+      await session.startTake(layers, mutedTracks, soloTracks, stream, latency);
+      setStatus('recording');
+    } catch (err) {
+      releaseStream();
+      setError('Failed to start recording. Please check microphone permissions.');
+      console.error('Overdub record error:', err);
+    }
+  };
+
+  const stopTake = async () => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    try {
+      const take = await session.stopTake();
+      releaseStream();
+      setStatus('idle');
+      if (!take || take.blob.size === 0) return;
+
+      const takeNumber = layers.filter(layer => layer.track.id.startsWith('take_')).length + 1;
+      const track: RecordingTrack = {
+        id: `take_${Date.now()}`,
+        label: `Take ${takeNumber}`,
+        mimeType: take.blob.type,
+        offset: take.offset,
+      };
+      const buffer = await session.decode(take.blob);
+      setLayers(prev => [...prev, { track, blob: take.blob, buffer }]);
+    } catch (err) {
+      setStatus('idle');
+      setError('Failed to save the take');
+      console.error('Overdub take error:', err);
+    }
+  };
+
+  const togglePreview = async () => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    if (status === 'previewing') {
+      session.stop();
+      setStatus('idle');
+      return;
+    }
+
+    playbackController.pause();
+    await session.preview(layers, mutedTracks, soloTracks, () => setStatus('idle'));
+    setStatus('previewing');
+  };
+
+  const changeTrack = (track: RecordingTrack) => {
+    setLayers(prev => prev.map(layer => layer.track.id === track.id ? { ...layer, track } : layer));
+  };
+
+  const removeTrack = (trackId: string) => {
+    setLayers(prev => prev.filter(layer => layer.track.id !== trackId));
+    setMutedTracks(prev => prev.filter(id => id !== trackId));
+    setSoloTracks(prev => prev.filter(id => id !== trackId));
+  };
+
+  const changeLatency = (value: string) => {
+    const latencyMs = value === '' ? null : Math.max(0, Number(value));
+    setLatencyOverride(latencyMs);
+    saveLatencyOverride(latencyMs);
+  };
+
+  const handleSave = async () => {
+    try {
+      setError('');
+      setStatus('saving');
+      sessionRef.current?.stop();
+      const saved = await saveMixdown(recording, layers, mutedTracks, soloTracks);
+      onSaved(saved);
+      onClose();
+    } catch (err) {
+      setStatus('idle');
+      setError('Failed to mix down recording');
+      console.error('Mixdown error:', err);
+    }
+  };
+
+  const isBusy = status === 'loading' || status === 'saving';
+
+  return (
+    <div className="overdub-studio">
+      <p className="overdub-note">
+        🎧 Use headphones, otherwise the playback is recorded into your take.
+      </p>
+
+      {status === 'loading' && !error && <p>Loading recording...</p>}
+
+      <TrackMixer
+        tracks={layers.map(layer => layer.track)}
+        mutedTracks={mutedTracks}
+        soloTracks={soloTracks}
+        onToggleMute={(trackId) => setMutedTracks(prev => toggleId(prev, trackId))}
+        onToggleSolo={(trackId) => setSoloTracks(prev => toggleId(prev, trackId))}
+        onTrackChange={changeTrack}
+        onRemoveTrack={layers.length > 1 ? removeTrack : undefined}
+      />
+
+      <div className="overdub-latency">
+        <label htmlFor={`overdub-latency-${recording.id}`}>Latency compensation (ms)</label>
+        <input
+          id={`overdub-latency-${recording.id}`}
+          type="number"
+          min={0}
+          step={1}
+          placeholder="Auto"
+          value={latencyOverride ?? ''}
+          onChange={(e) => changeLatency(e.target.value)}
+          disabled={status === 'recording'}
+        />
+        {measuredLatency !== null && (
+          <span>Measured {Math.round(measuredLatency * 1000)} ms</span>
+        )}
+      </div>
+
+      {error && <div className="overdub-error">{error}</div>}
+
+      <div className="overdub-actions">
+        {status === 'recording' ? (
+          <button onClick={stopTake} className="overdub-record-button recording">⏹️ Stop take</button>
+        ) : (
+          <button
+            onClick={startTake}
+            className="overdub-record-button"
+            disabled={isBusy || status === 'previewing'}
+          >
+            🎙️ Record take
+          </button>
+        )}
+        <button
+          onClick={togglePreview}
+          className="overdub-secondary-button"
+          disabled={isBusy || status === 'recording' || layers.length === 0}
+        >
+          {status === 'previewing' ? '⏹️ Stop preview' : '▶️ Preview mix'}
+        </button>
+        <button
+          onClick={handleSave}
+          className="overdub-primary-button"
+          disabled={isBusy || status === 'recording' || layers.length < 2}
+        >
+          {status === 'saving' ? 'Mixing down...' : 'Save mixdown as new recording'}
+        </button>
+        <button onClick={onClose} className="overdub-secondary-button" disabled={status === 'saving'}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { PlaybackState } from '../types/audio';
+import { PLAYBACK_RATES, SKIP_SECONDS, playbackController } from '../lib/playbackController';
+
+interface PlaybackToolbarProps {
+  state: PlaybackState;
+}
+
+export default function PlaybackToolbar({ state }: PlaybackToolbarProps) {
+  const formatTime = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  const hasLoop = state.loopStart !== null && state.loopEnd !== null;
+
+  return (
+    <div className="playback-toolbar">
+      <button onClick={() => playbackController.skip(-SKIP_SECONDS)} title={`Back ${SKIP_SECONDS} seconds`}>
+        ⏪ {SKIP_SECONDS}s
+      </button>
+      <button onClick={() => playbackController.skip(SKIP_SECONDS)} title={`Forward ${SKIP_SECONDS} seconds`}>
+        {SKIP_SECONDS}s ⏩
+      </button>
+
+      <label className="playback-rate">
+        Speed
+        <select
+          value={state.playbackRate}
+          onChange={(e) => playbackController.setPlaybackRate(Number(e.target.value))}
+        >
+          {PLAYBACK_RATES.map((rate) => (
+            <option key={rate} value={rate}>
+              {rate}x
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="playback-loop">
+        <button
+          onClick={() => playbackController.setLoopPoint()}
+          className={state.loopStart !== null ? 'active' : ''}
+          title="Set loop start, then loop end"
+        >
+          {state.loopStart === null || hasLoop ? 'A' : 'B'}
+        </button>
+        {state.loopStart !== null && (
+          <span>
+            {formatTime(state.loopStart)} – {state.loopEnd !== null ? formatTime(state.loopEnd) : '…'}
+          </span>
+        )}
+        {state.loopStart !== null && (
+          <button onClick={() => playbackController.clearLoop()} title="Clear loop">
+            ✕
+          </button>
+        )}
+      </div>
+
+      <label className="playback-skip-silence">
+        <input
+          type="checkbox"
+          checked={state.skipSilence}
+          onChange={(e) => playbackController.setSkipSilence(e.target.checked)}
+        />
+        Skip silence
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  ProcessingPreset,
+  ProcessingSettings,
+  deletePreset,
+  loadPresets,
+  savePreset,
+} from '../lib/audioProcessing';
+
+interface ProcessingControlsProps {
+  settings: ProcessingSettings;
+  onChange: (settings: ProcessingSettings) => void;
+  isRecording?: boolean;
+}
+
+export default function ProcessingControls({ settings, onChange, isRecording = false }: ProcessingControlsProps) {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [presets, setPresets] = useState<ProcessingPreset[]>([]);
+  const [selectedPreset, setSelectedPreset] = useState<string>('');
+
+  useEffect(() => {
+    setPresets(loadPresets());
+  }, []);
+
+  const update = (changes: Partial<ProcessingSettings>) => {
+    setSelectedPreset('');
+    onChange({ ...settings, ...changes });
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (preset) {
+      setSelectedPreset(name);
+      onChange(preset.settings);
+    }
+  };
+
+  const handleSavePreset = () => {
+    const name = prompt('Preset name', selectedPreset || '')?.trim();
+    if (!name) return;
+
+    if (presets.some(p => p.builtIn && p.name === name)) {
+      alert('Built-in presets cannot be overwritten.');
+      return;
+    }
+
+    setPresets(savePreset({ name, settings }));
+    setSelectedPreset(name);
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset || !confirm(`Delete preset "${selectedPreset}"?`)) return;
+    setPresets(deletePreset(selectedPreset));
+    setSelectedPreset('');
+  };
+
+  const isCustomPreset = presets.some(p => p.name === selectedPreset && !p.builtIn);
+
+  return (
+    <div className="processing-controls">
+      <button onClick={() => setIsOpen(!isOpen)} className="processing-toggle">
+        ⚙️ Input processing {isOpen ? '▲' : '▼'}
+      </button>
+
+      {isOpen && (
+        <div className="processing-panel">
+          <div className="processing-presets">
+            <select value={selectedPreset} onChange={(e) => applyPreset(e.target.value)}>
+              <option value="">Custom</option>
+              {presets.map((preset) => (
+                <option key={preset.name} value={preset.name}>
+                  {preset.name}
+                </option>
+              ))}
+            </select>
+            <button onClick={handleSavePreset}>Save preset</button>
+            {isCustomPreset && <button onClick={handleDeletePreset}>Delete</button>}
+          </div>
+
+          <fieldset className="processing-group">
+            <legend>Browser</legend>
+            <label>
+              <input
+                type="checkbox"
+                checked={settings.echoCancellation}
+                onChange={(e) => update({ echoCancellation: e.target.checked })}
+              />
+              Echo cancellation
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={settings.noiseSuppression}
+                onChange={(e) => update({ noiseSuppression: e.target.checked })}
+              />
+              Noise suppression
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={settings.autoGainControl}
+                onChange={(e) => update({ autoGainControl: e.target.checked })}
+              />
+              Auto gain
+            </label>
+          </fieldset>
+
+          <fieldset className="processing-group">
+            <legend>Chain</legend>
+            <label>
+              Input gain: {settings.inputGainDb > 0 ? '+' : ''}{settings.inputGainDb} dB
+              <input
+                type="range"
+                min="-24"
+                max="24"
+                step="1"
+                value={settings.inputGainDb}
+                onChange={(e) => update({ inputGainDb: Number(e.target.value) })}
+              />
+            </label>
+
+            <label>
+              <input
+                type="checkbox"
+                checked={settings.highPassEnabled}
+                onChange={(e) => update({ highPassEnabled: e.target.checked })}
+              />
+              High-pass: {settings.highPassFrequency} Hz
+              <input
+                type="range"
+                min="20"
+                max="300"
+                step="5"
+                value={settings.highPassFrequency}
+                disabled={!settings.highPassEnabled}
+                onChange={(e) => update({ highPassFrequency: Number(e.target.value) })}
+              />
+            </label>
+
+            <label>
+              <input
+                type="checkbox"
+                checked={settings.compressorEnabled}
+                onChange={(e) => update({ compressorEnabled: e.target.checked })}
+              />
+              Compressor: {settings.compressorThreshold} dB, {settings.compressorRatio}:1
+              <input
+                type="range"
+                min="-60"
+                max="0"
+                step="1"
+                value={settings.compressorThreshold}
+                disabled={!settings.compressorEnabled}
+                onChange={(e) => update({ compressorThreshold: Number(e.target.value) })}
+              />
+              <input
+                type="range"
+                min="1"
+                max="20"
+                step="0.5"
+                value={settings.compressorRatio}
+                disabled={!settings.compressorEnabled}
+                onChange={(e) => update({ compressorRatio: Number(e.target.value) })}
+              />
+            </label>
+
+            <label>
+              <input
+                type="checkbox"
+                checked={settings.limiterEnabled}
+                onChange={(e) => update({ limiterEnabled: e.target.checked })}
+              />
+              Limiter (-1 dB ceiling)
+            </label>
+
+            <label>
+              <input
+                type="checkbox"
+                checked={settings.noiseGateEnabled}
+                onChange={(e) => update({ noiseGateEnabled: e.target.checked })}
+              />
+              Noise gate: {settings.noiseGateThresholdDb} dB
+              <input
+                type="range"
+                min="-90"
+                max="-20"
+                step="1"
+                value={settings.noiseGateThresholdDb}
+                disabled={!settings.noiseGateEnabled}
+                onChange={(e) => update({ noiseGateThresholdDb: Number(e.target.value) })}
+              />
+            </label>
+          </fieldset>
+
+          {isRecording && (
+            <p className="processing-note">Changes apply to the current take immediately.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
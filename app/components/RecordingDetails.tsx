@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import { RecordingMetadata } from '../types/audio';
+import { audioStorage } from '../lib/audioStorage';
+import { normalizeTag } from '../lib/recordingSearch';
+
+interface RecordingDetailsProps {
+  recording: RecordingMetadata;
+  onChange: (recording: RecordingMetadata) => void;
+  onTagClick?: (tag: string) => void;
+}
+
+export default function RecordingDetails({ recording, onChange, onTagClick }: RecordingDetailsProps) {
+  const [isRenaming, setIsRenaming] = useState<boolean>(false);
+  const [draftName, setDraftName] = useState<string>(recording.name);
+  const [draftTag, setDraftTag] = useState<string>('');
+  const [isEditingNotes, setIsEditingNotes] = useState<boolean>(false);
+  const [draftNotes, setDraftNotes] = useState<string>(recording.notes || '');
+  const [error, setError] = useState<string>('');
+
+  const tags = recording.tags || [];
+
+  const save = async (changes: Partial<RecordingMetadata>) => {
+    const updated = { ...recording, ...changes };
+    try {
+      setError('');
+      await audioStorage.updateRecording(updated);
+      onChange(updated);
+    } catch (err) {
+      setError('Failed to save changes');
+      console.error('Update error:', err);
+    }
+  };
+
+  const commitRename = async () => {
+    setIsRenaming(false);
+    const name = draftName.trim();
+    if (name && name !== recording.name) {
+      await save({ name });
+    } else {
+      setDraftName(recording.name);
+    }
+  };
+
+  const addTag = async () => {
+    const tag = normalizeTag(draftTag);
+    setDraftTag('');
+    if (tag && !tags.includes(tag)) {
+      await save({ tags: [...tags, tag] });
+    }
+  };
+
+  const removeTag = async (tag: string) => {
+    await save({ tags: tags.filter(t => t !== tag) });
+  };
+
+  const commitNotes = async () => {
+    setIsEditingNotes(false);
+    const notes = draftNotes.trim();
+    if (notes !== (recording.notes || '')) {
+      await save({ notes: notes || undefined });
+    }
+  };
+
+  return (
+    <div className="recording-details">
+      {isRenaming ? (
+        <input
+          className="rename-input"
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') {
+              setDraftName(recording.name);
+              setIsRenaming(false);
+            }
+          }}
+          autoFocus
+        />
+      ) : (
+        <h3
+          className="recording-name"
+          onClick={() => {
+            setDraftName(recording.name);
+            setIsRenaming(true);
+          }}
+          title="Click to rename"
+        >
+          {recording.name}
+        </h3>
+      )}
+
+      <div className="recording-tags">
+        {tags.map((tag) => (
+          <span key={tag} className="tag-chip">
+            <button onClick={() => onTagClick?.(tag)} className="tag-label" title="Filter by tag">
+              #{tag}
+            </button>
+            <button onClick={() => removeTag(tag)} className="tag-remove" title="Remove tag">
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          className="tag-input"
+          value={draftTag}
+          placeholder="+ tag"
+          onChange={(e) => setDraftTag(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addTag();
+            }
+          }}
+          onBlur={addTag}
+        />
+      </div>
+
+      {isEditingNotes ? (
+        <textarea
+          className="notes-input"
+          value={draftNotes}
+          onChange={(e) => setDraftNotes(e.target.value)}
+          onBlur={commitNotes}
+          placeholder="Add notes..."
+          rows={3}
+          autoFocus
+        />
+      ) : (
+        <p
+          className={`recording-notes ${recording.notes ? '' : 'empty'}`}
+          onClick={() => {
+            setDraftNotes(recording.notes || '');
+            setIsEditingNotes(true);
+          }}
+          title="Click to edit notes"
+        >
+          {recording.notes || 'Add notes...'}
+        </p>
+      )}
+
+      {error && <div className="details-error">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { AudioRecording, RecordingEdits, RecordingMetadata } from '../types/audio';
+import { audioStorage, toRecordingMetadata } from '../lib/audioStorage';
+import { audioEditor, createEmptyEdits, getEditedDuration } from '../lib/audioEditor';
+import { waveformGenerator } from '../lib/waveform';
+import Waveform from './Waveform';
+
+interface RecordingEditorProps {
+  recording: RecordingMetadata;
+  onSaved: (recording: RecordingMetadata) => void;
+  onClose: () => void;
+}
+
+export default function RecordingEditor({ recording, onSaved, onClose }: RecordingEditorProps) {
+  const [original, setOriginal] = useState<AudioRecording | null>(null);
+  const [sourceBuffer, setSourceBuffer] = useState<AudioBuffer | null>(null);
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [versions, setVersions] = useState<RecordingMetadata[]>([]);
+  const [activeVersionId, setActiveVersionId] = useState<string>(recording.id);
+  const [edits, setEdits] = useState<RecordingEdits>(createEmptyEdits(0));
+  const [cursor, setCursor] = useState<number>(0);
+  const [pendingCutStart, setPendingCutStart] = useState<number | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState<boolean>(false);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const previewContextRef = useRef<AudioContext | null>(null);
+
+  useEffect(() => {
+    loadEditor();
+
+    return () => {
+      stopPreview();
+    };
+  }, [recording.id]);
+
+  const loadEditor = async () => {
+    try {
+      setError('');
+
+      // Edits always apply to the original audio, whichever version was opened
+      const root = await audioStorage.getRecording(recording.originalId || recording.id);
+      if (!root) {
+        setError('The original recording no longer exists');
+        return;
+      }
+
+      const buffer = await audioEditor.decode(root.blob);
+      setOriginal(root);
+      setSourceBuffer(buffer);
+      setEdits(recording.edits || createEmptyEdits(buffer.duration));
+      setVersions(await audioStorage.getVersions(root.id));
+      setPeaks(await waveformGenerator.getPeaks(root));
+    } catch (err) {
+      setError('Failed to load recording for editing');
+      console.error('Editor load error:', err);
+    }
+  };
+
+  const duration = sourceBuffer?.duration || 0;
+
+  const loadVersion = (version: RecordingMetadata) => {
+    stopPreview();
+    setActiveVersionId(version.id);
+    setEdits(version.edits || createEmptyEdits(duration));
+    setPendingCutStart(null);
+  };
+
+  const setInPoint = () => {
+    setEdits(prev => ({ ...prev, inPoint: Math.min(cursor, prev.outPoint) }));
+  };
+
+  const setOutPoint = () => {
+    setEdits(prev => ({ ...prev, outPoint: Math.max(cursor, prev.inPoint) }));
+  };
+
+  const toggleCut = () => {
+    if (pendingCutStart === null) {
+      setPendingCutStart(cursor);
+      return;
+    }
+
+    const start = Math.min(pendingCutStart, cursor);
+    const end = Math.max(pendingCutStart, cursor);
+    if (end > start) {
+      setEdits(prev => ({ ...prev, cuts: [...prev.cuts, { start, end }] }));
+    }
+    setPendingCutStart(null);
+  };
+
+  const removeCut = (index: number) => {
+    setEdits(prev => ({ ...prev, cuts: prev.cuts.filter((_, i) => i !== index) }));
+  };
+
+  const resetEdits = () => {
+    setEdits(createEmptyEdits(duration));
+    setPendingCutStart(null);
+  };
+
+  const startPreview = async () => {
+    if (!sourceBuffer) return;
+
+    stopPreview();
+    const audioContext = new AudioContext();
+    const source = audioContext.createBufferSource();
+    source.buffer = audioEditor.renderEdits(sourceBuffer, edits);
+    source.connect(audioContext.destination);
+    source.onended = () => {
+      if (previewContextRef.current === audioContext) stopPreview();
+    };
+    source.start();
+
+    previewContextRef.current = audioContext;
+    setIsPreviewing(true);
+  };
+
+  const stopPreview = () => {
+    if (previewContextRef.current) {
+      previewContextRef.current.close();
+      previewContextRef.current = null;
+    }
+    setIsPreviewing(false);
+  };
+
+  const saveVersion = async () => {
+    if (!original) return;
+
+    try {
+      stopPreview();
+      setIsSaving(true);
+      setError('');
+
+      const saved = await audioEditor.saveVersion(original, edits);
+      setVersions(prev => [...prev, toRecordingMetadata(saved)]);
+      setActiveVersionId(saved.id);
+      onSaved(saved);
+    } catch (err) {
+      setError('Failed to save edited version');
+      console.error('Editor save error:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatTime = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = (seconds % 60).toFixed(1);
+    return `${mins.toString().padStart(2, '0')}:${secs.padStart(4, '0')}`;
+  };
+
+  const toPercent = (time: number): string => `${duration > 0 ? (time / duration) * 100 : 0}%`;
+
+  if (!original || !sourceBuffer) {
+    return (
+      <div className="recording-editor">
+        {error ? <div className="editor-error">{error}</div> : <p>Loading editor...</p>}
+        <button onClick={onClose} className="editor-secondary-button">Close</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="recording-editor">
+      <div className="editor-timeline">
+        <Waveform peaks={peaks} currentTime={cursor} duration={duration} onSeek={setCursor} />
+        <div className="editor-overlay">
+          <div className="editor-trimmed" style={{ left: 0, width: toPercent(edits.inPoint) }} />
+          <div
+            className="editor-trimmed"
+            style={{ left: toPercent(edits.outPoint), width: toPercent(duration - edits.outPoint) }}
+          />
+          {edits.cuts.map((cut, i) => (
+            <div
+              key={i}
+              className="editor-cut"
+              style={{ left: toPercent(cut.start), width: toPercent(cut.end - cut.start) }}
+            />
+          ))}
+          {pendingCutStart !== null && (
+            <div className="editor-pending-cut" style={{ left: toPercent(pendingCutStart) }} />
+          )}
+          <div className="editor-cursor" style={{ left: toPercent(cursor) }} />
+        </div>
+      </div>
+
+      <div className="editor-times">
+        <span>Cursor {formatTime(cursor)}</span>
+        <span>In {formatTime(edits.inPoint)}</span>
+        <span>Out {formatTime(edits.outPoint)}</span>
+        <span>Result {formatTime(getEditedDuration(edits))}</span>
+      </div>
+
+      <div className="editor-controls">
+        <button onClick={setInPoint} className="editor-secondary-button">[ Set In</button>
+        <button onClick={setOutPoint} className="editor-secondary-button">Set Out ]</button>
+        <button onClick={toggleCut} className="editor-secondary-button">
+          {pendingCutStart === null ? '✂️ Start Cut' : '✂️ End Cut'}
+        </button>
+        <button onClick={resetEdits} className="editor-secondary-button">Reset</button>
+      </div>
+
+      {edits.cuts.length > 0 && (
+        <ul className="editor-cut-list">
+          {edits.cuts.map((cut, i) => (
+            <li key={i}>
+              <span>Cut {formatTime(cut.start)} – {formatTime(cut.end)}</span>
+              <button onClick={() => removeCut(i)} title="Remove cut">✕</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="editor-history">
+        <span>Versions:</span>
+        {[original, ...versions].map((version) => (
+          <button
+            key={version.id}
+            onClick={() => loadVersion(version)}
+            className={`editor-version ${version.id === activeVersionId ? 'active' : ''}`}
+          >
+            {version.originalId ? `v${version.version}` : 'Original'}
+          </button>
+        ))}
+      </div>
+
+      {error && <div className="editor-error">{error}</div>}
+
+      <div className="editor-actions">
+        <button
+          onClick={isPreviewing ? stopPreview : startPreview}
+          className="editor-primary-button"
+        >
+          {isPreviewing ? '⏹️ Stop Preview' : '▶️ Preview'}
+        </button>
+        <button onClick={saveVersion} disabled={isSaving} className="editor-primary-button">
+          {isSaving ? 'Saving...' : '💾 Save as New Version'}
+        </button>
+        <button onClick={onClose} className="editor-secondary-button">Close</button>
+      </div>
+    </div>
+  );
+}
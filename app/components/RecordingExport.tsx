@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import { RecordingMetadata } from '../types/audio';
+import { audioStorage } from '../lib/audioStorage';
+import {
+  ExportFormat,
+  EXPORT_SAMPLE_RATES,
+  MP3_BITRATES,
+  audioExporter,
+} from '../lib/audioExport';
+import { buildCueSheet, getCueFilename } from '../lib/markers';
+import { TrackExportMode, multitrackMixer } from '../lib/multitrack';
+
+interface RecordingExportProps {
+  recording: RecordingMetadata;
+  onClose: () => void;
+}
+
+export default function RecordingExport({ recording, onClose }: RecordingExportProps) {
+  const [format, setFormat] = useState<ExportFormat>('wav');
+  const [sampleRate, setSampleRate] = useState<number>(44100);
+  const [bitrate, setBitrate] = useState<number>(192);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string>('');
+  const [trackMode, setTrackMode] = useState<TrackExportMode>('mix');
+
+  const isExporting = progress !== null;
+  const hasTracks = !!recording.tracks && recording.tracks.length > 0;
+  // MP3 cannot carry more than two channels
+  const effectiveFormat: ExportFormat = hasTracks && trackMode === 'multichannel' ? 'wav' : format;
+
+  // Multitrack recordings are rendered from their tracks; the stored mix is the fallback
+  const renderTracks = async (): Promise<Blob | null> => {
+    if (!hasTracks) return null;
+
+    const buffers = await multitrackMixer.decodeTracks(recording, sampleRate);
+    if (buffers.every(buffer => buffer === null)) return null;
+
+    const buffer = trackMode === 'multichannel'
+      ? multitrackMixer.renderMultichannel(recording.tracks!, buffers, sampleRate)
+      : await multitrackMixer.renderMix(recording.tracks!, buffers, sampleRate);
+    return effectiveFormat === 'mp3'
+      ? audioExporter.encodeMp3(buffer, bitrate, setProgress)
+      : audioExporter.encodeWav(buffer, setProgress);
+  };
+
+  const handleExport = async () => {
+    try {
+      setError('');
+      setProgress(0);
+
+      let blob = await renderTracks();
+      if (!blob) {
+        const fullRecording = await audioStorage.getRecording(recording.id);
+        if (!fullRecording) {
+          throw new Error(`Recording ${recording.id} not found`);
+        }
+
+        blob = await audioExporter.exportRecording(fullRecording, {
+          format: effectiveFormat,
+          sampleRate,
+          bitrate,
+          onProgress: setProgress,
+        });
+      }
+
+      const filename = audioExporter.getExportFilename(recording, effectiveFormat);
+      audioExporter.downloadBlob(blob, filename);
+
+      // Markers travel as a cue sheet next to the audio file
+      if (recording.markers && recording.markers.length > 0) {
+        const cueSheet = new Blob([buildCueSheet(recording, filename)], { type: 'application/x-cue' });
+        audioExporter.downloadBlob(cueSheet, getCueFilename(filename));
+      }
+    } catch (err) {
+      setError('Failed to export recording');
+      console.error('Export error:', err);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="recording-export">
+      <div className="export-options">
+        {hasTracks && (
+          <label>
+            Tracks
+            <select
+              value={trackMode}
+              onChange={(e) => setTrackMode(e.target.value as TrackExportMode)}
+              disabled={isExporting}
+            >
+              <option value="mix">Stereo mixdown</option>
+              <option value="multichannel">Multichannel WAV (one channel per track)</option>
+            </select>
+          </label>
+        )}
+
+        <label>
+          Format
+          <select
+            value={effectiveFormat}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            disabled={isExporting || (hasTracks && trackMode === 'multichannel')}
+          >
+            <option value="wav">WAV (16-bit PCM)</option>
+            <option value="mp3">MP3</option>
+          </select>
+        </label>
+
+        <label>
+          Sample rate
+          <select
+            value={sampleRate}
+            onChange={(e) => setSampleRate(Number(e.target.value))}
+            disabled={isExporting}
+          >
+            {EXPORT_SAMPLE_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate} Hz
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {effectiveFormat === 'mp3' && (
+          <label>
+            Bitrate
+            <select
+              value={bitrate}
+              onChange={(e) => setBitrate(Number(e.target.value))}
+              disabled={isExporting}
+            >
+              {MP3_BITRATES.map((rate) => (
+                <option key={rate} value={rate}>
+                  {rate} kbps
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {isExporting && (
+        <div className="export-progress">
+          <progress value={progress} max={1} />
+          <span>{Math.round(progress * 100)}%</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="export-error">
+          {error}
+        </div>
+      )}
+
+      {recording.markers && recording.markers.length > 0 && (
+        <p className="export-note">
+          A cue sheet with {recording.markers.length} marker{recording.markers.length !== 1 ? 's' : ''} is downloaded alongside the audio.
+        </p>
+      )}
+
+      <div className="export-actions">
+        <button onClick={handleExport} disabled={isExporting} className="export-confirm-button">
+          {isExporting ? 'Encoding...' : '⬇️ Download'}
+        </button>
+        <button onClick={onClose} disabled={isExporting} className="export-cancel-button">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { RecordingQuery } from '../types/audio';
+import { isQueryEmpty } from '../lib/recordingSearch';
+
+interface RecordingFiltersProps {
+  query: RecordingQuery;
+  tags: string[];
+  onChange: (query: RecordingQuery) => void;
+}
+
+export default function RecordingFilters({ query, tags, onChange }: RecordingFiltersProps) {
+  const update = (changes: Partial<RecordingQuery>) => {
+    onChange({ ...query, ...changes });
+  };
+
+  // Durations are entered in minutes but stored in seconds
+  const parseMinutes = (value: string): number | undefined =>
+    value === '' ? undefined : Math.max(0, Number(value)) * 60;
+  const toMinutes = (seconds?: number): string =>
+    seconds === undefined ? '' : String(seconds / 60);
+
+  return (
+    <div className="recording-filters">
+      <input
+        type="search"
+        className="filter-search"
+        placeholder="Search names, notes, tags and transcripts..."
+        value={query.text || ''}
+        onChange={(e) => update({ text: e.target.value || undefined })}
+      />
+
+      <div className="filter-row">
+        <label>
+          Tag
+          <select
+            value={query.tag || ''}
+            onChange={(e) => update({ tag: e.target.value || undefined })}
+          >
+            <option value="">Any</option>
+            {tags.map((tag) => (
+              <option key={tag} value={tag}>
+                #{tag}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          From
+          <input
+            type="date"
+            value={query.from || ''}
+            onChange={(e) => update({ from: e.target.value || undefined })}
+          />
+        </label>
+
+        <label>
+          To
+          <input
+            type="date"
+            value={query.to || ''}
+            onChange={(e) => update({ to: e.target.value || undefined })}
+          />
+        </label>
+
+        <label>
+          Min (min)
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={toMinutes(query.minDuration)}
+            onChange={(e) => update({ minDuration: parseMinutes(e.target.value) })}
+          />
+        </label>
+
+        <label>
+          Max (min)
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={toMinutes(query.maxDuration)}
+            onChange={(e) => update({ maxDuration: parseMinutes(e.target.value) })}
+          />
+        </label>
+
+        {!isQueryEmpty(query) && (
+          <button onClick={() => onChange({})} className="filter-clear-button">
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toDateTimeLocal } from '../lib/recordingSchedule';
+
+interface RecordingSchedulerProps {
+  scheduledStart: Date | null;
+  onSchedule: (startAt: Date) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+const formatWait = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  const clock = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${clock}` : clock;
+};
+
+export default function RecordingScheduler({
+  scheduledStart,
+  onSchedule,
+  onCancel,
+  disabled = false,
+}: RecordingSchedulerProps) {
+  const [value, setValue] = useState<string>('');
+  const [now, setNow] = useState<number>(Date.now());
+
+  useEffect(() => {
+    if (!scheduledStart) return;
+
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [scheduledStart]);
+
+  const startAt = value ? new Date(value) : null;
+  const isValid = !!startAt && !isNaN(startAt.getTime()) && startAt.getTime() > Date.now();
+
+  if (scheduledStart) {
+    return (
+      <div className="recording-scheduler scheduled">
+        <span>
+          ⏰ Recording starts at {scheduledStart.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          {' '}(in {formatWait(scheduledStart.getTime() - now)})
+        </span>
+        <button onClick={onCancel} className="scheduler-cancel-button">
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="recording-scheduler">
+      <label>
+        ⏰ Start at
+        <input
+          type="datetime-local"
+          value={value}
+          min={toDateTimeLocal(new Date())}
+          onChange={(e) => setValue(e.target.value)}
+          disabled={disabled}
+        />
+      </label>
+      <button
+        onClick={() => startAt && onSchedule(startAt)}
+        disabled={disabled || !isValid}
+        className="scheduler-button"
+      >
+        Schedule
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AudioDevice, audioDeviceManager, findDevice } from '../lib/audioDevices';
+import {
+  BITRATE_OPTIONS,
+  CHANNEL_OPTIONS,
+  COUNTDOWN_SECONDS,
+  MAX_DURATION_OPTIONS,
+  NAME_TEMPLATE_TOKENS,
+  RecordingSettings,
+  SAMPLE_RATE_OPTIONS,
+  describeMimeType,
+  formatRecordingName,
+  getSupportedMimeTypes,
+} from '../lib/recordingSettings';
+
+interface RecordingSettingsPanelProps {
+  settings: RecordingSettings;
+  onChange: (settings: RecordingSettings) => void;
+  disabled?: boolean;
+}
+
+export default function RecordingSettingsPanel({ settings, onChange, disabled = false }: RecordingSettingsPanelProps) {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [mimeTypes, setMimeTypes] = useState<string[]>([]);
+  const [devices, setDevices] = useState<AudioDevice[]>([]);
+
+  useEffect(() => {
+    setMimeTypes(getSupportedMimeTypes());
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      audioDeviceManager.getAudioInputDevices().then(setDevices);
+    }
+  }, [isOpen]);
+
+  const update = (changes: Partial<RecordingSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  const parseOptional = (value: string): number | null => (value ? Number(value) : null);
+
+  const isSavedTypeMissing = settings.mimeType !== '' && mimeTypes.length > 0 && !mimeTypes.includes(settings.mimeType);
+  const namePreview = formatRecordingName(settings.nameTemplate, {
+    startedAt: new Date(),
+    device: findDevice(devices, settings.defaultDevice)?.label || devices[0]?.label || '',
+    duration: 95,
+  });
+
+  return (
+    <div className="recording-settings">
+      <button onClick={() => setIsOpen(!isOpen)} className="processing-toggle">
+        🎚️ Format, naming &amp; timing {isOpen ? '▲' : '▼'}
+      </button>
+
+      {isOpen && (
+        <div className="processing-panel">
+          <fieldset className="processing-group" disabled={disabled}>
+            <legend>Format</legend>
+            <label>
+              Container / codec
+              <select value={settings.mimeType} onChange={(e) => update({ mimeType: e.target.value })}>
+                <option value="">Browser default</option>
+                {mimeTypes.map((mimeType) => (
+                  <option key={mimeType} value={mimeType}>
+                    {describeMimeType(mimeType)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {isSavedTypeMissing && (
+              <p className="processing-note">
+                {describeMimeType(settings.mimeType)} is not supported in this browser; the default is used instead.
+              </p>
+            )}
+
+            <label>
+              Bitrate
+              <select
+                value={settings.audioBitsPerSecond ?? ''}
+                onChange={(e) => update({ audioBitsPerSecond: parseOptional(e.target.value) })}
+              >
+                <option value="">Automatic</option>
+                {BITRATE_OPTIONS.map((bitrate) => (
+                  <option key={bitrate} value={bitrate}>
+                    {bitrate / 1000} kbps
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label>
+              Channels
+              <select
+                value={settings.channelCount ?? ''}
+                onChange={(e) => update({ channelCount: parseOptional(e.target.value) })}
+              >
+                <option value="">Device default</option>
+                {CHANNEL_OPTIONS.map((count) => (
+                  <option key={count} value={count}>
+                    {count === 1 ? 'Mono' : 'Stereo'}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label>
+              Sample rate
+              <select
+                value={settings.sampleRate ?? ''}
+                onChange={(e) => update({ sampleRate: parseOptional(e.target.value) })}
+              >
+                <option value="">Device default</option>
+                {SAMPLE_RATE_OPTIONS.map((rate) => (
+                  <option key={rate} value={rate}>
+                    {rate} Hz
+                  </option>
+                ))}
+              </select>
+            </label>
+          </fieldset>
+
+          <fieldset className="processing-group" disabled={disabled}>
+            <legend>Defaults</legend>
+            <label>
+              Default microphone
+              <select
+                value={findDevice(devices, settings.defaultDevice)?.deviceId || ''}
+                onChange={(e) => update({ defaultDevice: devices.find(d => d.deviceId === e.target.value) || null })}
+              >
+                <option value="">First available</option>
+                {devices.map((device) => (
+                  <option key={device.deviceId} value={device.deviceId}>
+                    {device.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label>
+              Name template
+              <input
+                type="text"
+                value={settings.nameTemplate}
+                onChange={(e) => update({ nameTemplate: e.target.value })}
+              />
+            </label>
+            <p className="processing-note">
+              Available: {NAME_TEMPLATE_TOKENS.join(' ')} · Example: {namePreview}
+            </p>
+          </fieldset>
+
+          <fieldset className="processing-group" disabled={disabled}>
+            <legend>Timing</legend>
+            <label>
+              <input
+                type="checkbox"
+                checked={settings.countdown}
+                onChange={(e) => update({ countdown: e.target.checked })}
+              />
+              Count down {COUNTDOWN_SECONDS} seconds before recording
+            </label>
+
+            <label>
+              Stop automatically after
+              <select
+                value={settings.maxDurationSeconds ?? ''}
+                onChange={(e) => update({ maxDurationSeconds: parseOptional(e.target.value) })}
+              >
+                <option value="">No limit</option>
+                {MAX_DURATION_OPTIONS.map((seconds) => (
+                  <option key={seconds} value={seconds}>
+                    {seconds < 3600 ? `${seconds / 60} min` : `${seconds / 3600} h`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </fieldset>
+
+          {disabled && (
+            <p className="processing-note">Format changes apply to the next recording.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RecordingMetadata, RecordingShare } from '../types/audio';
+import { SHARE_EXPIRY_OPTIONS, getShareUrl, shareClient } from '../lib/shareClient';
+
+interface RecordingSharePanelProps {
+  recording: RecordingMetadata;
+  onClose: () => void;
+}
+
+const isExpired = (share: RecordingShare): boolean =>
+  share.expiresAt !== null && new Date(share.expiresAt) <= new Date();
+
+const describeShare = (share: RecordingShare): string => {
+  if (share.revokedAt) return 'Revoked';
+  if (isExpired(share)) return 'Expired';
+  return share.expiresAt ? `Expires ${new Date(share.expiresAt).toLocaleString()}` : 'Never expires';
+};
+
+export default function RecordingSharePanel({ recording, onClose }: RecordingSharePanelProps) {
+  const [expiryIndex, setExpiryIndex] = useState<number>(2);
+  const [password, setPassword] = useState<string>('');
+  const [shares, setShares] = useState<RecordingShare[]>([]);
+  const [isSharing, setIsSharing] = useState<boolean>(false);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    loadShares();
+  }, [recording.id]);
+
+  const loadShares = async () => {
+    try {
+      setShares(await shareClient.listShares(recording.id));
+    } catch (err) {
+      // The server may be unreachable; creating a share reports that more clearly
+      console.error('Error loading shares:', err);
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      setError('');
+      setIsSharing(true);
+
+      const share = await shareClient.createShare(recording, {
+        expiresInHours: SHARE_EXPIRY_OPTIONS[expiryIndex].hours,
+        password: password.trim() || undefined,
+      });
+      setPassword('');
+      setShares(prev => [share, ...prev]);
+      copyLink(share.token);
+    } catch (err) {
+      setError('Failed to share recording. Check your connection and the server key, then try again.');
+      console.error('Share error:', err);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleRevoke = async (token: string) => {
+    if (!confirm('Revoke this link? Anyone using it will lose access.')) return;
+
+    try {
+      const revoked = await shareClient.revokeShare(token);
+      setShares(prev => prev.map(share => share.token === token ? revoked : share));
+    } catch (err) {
+      setError('Failed to revoke link');
+      console.error('Revoke error:', err);
+    }
+  };
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(token));
+      setCopiedToken(token);
+    } catch {
+      // Clipboard access can be denied; the link stays visible to copy by hand
+    }
+  };
+
+  return (
+    <div className="recording-share">
+      <div className="share-options">
+        <label>
+          Expires after
+          <select
+            value={expiryIndex}
+            onChange={(e) => setExpiryIndex(Number(e.target.value))}
+            disabled={isSharing}
+          >
+            {SHARE_EXPIRY_OPTIONS.map((option, i) => (
+              <option key={option.label} value={i}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Password (optional)
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={isSharing}
+          />
+        </label>
+      </div>
+
+      {error && <div className="share-error">{error}</div>}
+
+      <div className="export-actions">
+        <button onClick={handleShare} disabled={isSharing} className="export-confirm-button">
+          {isSharing ? 'Publishing...' : '🔗 Create link'}
+        </button>
+        <button onClick={onClose} disabled={isSharing} className="export-cancel-button">
+          Close
+        </button>
+      </div>
+
+      {shares.length > 0 && (
+        <ul className="share-links">
+          {shares.map((share) => {
+            const isActive = !share.revokedAt && !isExpired(share);
+            return (
+              <li key={share.token} className={isActive ? '' : 'inactive'}>
+                <input type="text" readOnly value={getShareUrl(share.token)} onFocus={(e) => e.target.select()} />
+                <span className="share-link-status">
+                  {share.hasPassword && '🔒 '}{describeShare(share)}
+                </span>
+                {isActive && (
+                  <>
+                    <button onClick={() => copyLink(share.token)}>
+                      {copiedToken === share.token ? 'Copied' : 'Copy'}
+                    </button>
+                    <button onClick={() => handleRevoke(share.token)}>Revoke</button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,137 +1,209 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { AudioRecording, PlaybackState } from '../types/audio';
+import {
+  PlaybackState,
+  RecordingMarker,
+  RecordingMetadata,
+  RecordingQuery,
+  RecordingSyncState,
+  RecordingTrack,
+} from '../types/audio';
 import { audioStorage } from '../lib/audioStorage';
+import { waveformGenerator } from '../lib/waveform';
+import { isQueryEmpty } from '../lib/recordingSearch';
+import { transcriptionClient } from '../lib/transcriptionClient';
+import { syncEngine } from '../lib/syncEngine';
+import { SKIP_SECONDS, playbackController } from '../lib/playbackController';
+import { ShortcutAction, shortcutManager } from '../lib/shortcuts';
+import MarkerList from './MarkerList';
+import OverdubStudio from './OverdubStudio';
+import PlaybackToolbar from './PlaybackToolbar';
+import TrackMixer from './TrackMixer';
+import RecordingDetails from './RecordingDetails';
+import RecordingEditor from './RecordingEditor';
+import RecordingExport from './RecordingExport';
+import RecordingFilters from './RecordingFilters';
+import RecordingSharePanel from './RecordingSharePanel';
+import SyncBadge from './SyncBadge';
+import TranscriptView from './TranscriptView';
+import Waveform from './Waveform';
+
+const TRACK_SAVE_DELAY_MS = 500;
 
 interface RecordingsListProps {
-  recordings: AudioRecording[];
+  recordings: RecordingMetadata[];
+  totalCount?: number;
+  query: RecordingQuery;
+  tags: string[];
+  onQueryChange: (query: RecordingQuery) => void;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
   onRecordingsChange: () => void;
 }
 
-export default function RecordingsList({ recordings, onRecordingsChange }: RecordingsListProps) {
-  const [playbackStates, setPlaybackStates] = useState<{ [id: string]: PlaybackState }>({});
-  const audioRefs = useRef<{ [id: string]: HTMLAudioElement }>({});
+export default function RecordingsList({
+  recordings,
+  totalCount,
+  query,
+  tags,
+  onQueryChange,
+  hasMore = false,
+  onLoadMore,
+  onRecordingsChange,
+}: RecordingsListProps) {
+  const [playback, setPlayback] = useState<PlaybackState>(playbackController.getState());
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [overdubbingId, setOverdubbingId] = useState<string | null>(null);
+  // Volume and pan changes show immediately and are written back after the slider settles
+  const [trackEdits, setTrackEdits] = useState<{ [id: string]: RecordingTrack[] }>({});
+  const [visibleMarkers, setVisibleMarkers] = useState<{ [id: string]: boolean }>({});
+  const [visibleTranscripts, setVisibleTranscripts] = useState<{ [id: string]: boolean }>({});
+  const [transcribingId, setTranscribingId] = useState<string | null>(null);
+  const [transcriptionError, setTranscriptionError] = useState<{ [id: string]: string }>({});
+  const [waveforms, setWaveforms] = useState<{ [id: string]: number[] }>({});
+  const [syncStates, setSyncStates] = useState<{ [id: string]: RecordingSyncState }>({});
+  const recordingsRef = useRef<RecordingMetadata[]>(recordings);
+  recordingsRef.current = recordings;
+  const trackSaveTimersRef = useRef<{ [id: string]: number }>({});
+
+  useEffect(() => {
+    return () => {
+      Object.values(trackSaveTimersRef.current).forEach(timer => clearTimeout(timer));
+    };
+  }, []);
+
+  useEffect(() => {
+    return syncEngine.subscribe(snapshot => setSyncStates(snapshot.states));
+  }, []);
 
   useEffect(() => {
-    // Initialize playback states for all recordings
-    const initialStates: { [id: string]: PlaybackState } = {};
-    recordings.forEach(recording => {
-      initialStates[recording.id] = {
-        isPlaying: false,
-        currentTime: 0,
-        duration: recording.duration,
-        audio: null,
-      };
-    });
-    setPlaybackStates(initialStates);
-
-    // Cleanup audio elements on unmount
+    const unsubscribe = playbackController.subscribe(setPlayback);
+
+    // Free the blob URL when the list goes away
     return () => {
-      Object.values(audioRefs.current).forEach(audio => {
-        if (audio) {
-          audio.pause();
-          audio.src = '';
+      unsubscribe();
+      playbackController.unload();
+    };
+  }, []);
+
+  useEffect(() => {
+    const handlers: { [action in ShortcutAction]?: () => void } = {
+      playPause: () => {
+        // With nothing loaded yet, start the newest recording in the list
+        if (!playbackController.toggleCurrent() && recordingsRef.current.length > 0) {
+          playbackController.play(recordingsRef.current[0])
+            .catch(error => console.error('Error playing audio:', error));
         }
-      });
+      },
+      seekBackward: () => playbackController.skip(-SKIP_SECONDS),
+      seekForward: () => playbackController.skip(SKIP_SECONDS),
     };
-  }, [recordings]);
 
-  const createAudioElement = (recording: AudioRecording): HTMLAudioElement => {
-    if (audioRefs.current[recording.id]) {
-      return audioRefs.current[recording.id];
-    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const action = shortcutManager.match(event);
+      const handler = action && handlers[action];
+      if (!handler) return;
 
-    const audio = new Audio();
-    const audioUrl = URL.createObjectURL(recording.blob);
-    audio.src = audioUrl;
-    audio.preload = 'metadata';
-
-    audio.addEventListener('loadedmetadata', () => {
-      setPlaybackStates(prev => ({
-        ...prev,
-        [recording.id]: {
-          ...prev[recording.id],
-          duration: audio.duration,
-        },
-      }));
-    });
-
-    audio.addEventListener('timeupdate', () => {
-      setPlaybackStates(prev => ({
-        ...prev,
-        [recording.id]: {
-          ...prev[recording.id],
-          currentTime: audio.currentTime,
-        },
-      }));
-    });
-
-    audio.addEventListener('ended', () => {
-      setPlaybackStates(prev => ({
-        ...prev,
-        [recording.id]: {
-          ...prev[recording.id],
-          isPlaying: false,
-          currentTime: 0,
-        },
-      }));
-    });
-
-    audioRefs.current[recording.id] = audio;
-    return audio;
-  };
+      event.preventDefault();
+      handler();
+    };
 
-  const playRecording = async (recording: AudioRecording) => {
-    // Stop all other playing audio
-    Object.entries(playbackStates).forEach(([id, state]) => {
-      if (state.isPlaying && id !== recording.id) {
-        pauseRecording(id);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Load waveforms one at a time so we never decode every recording at once
+    const loadWaveforms = async () => {
+      for (const recording of recordings) {
+        if (cancelled) return;
+        if (waveforms[recording.id]) continue;
+
+        try {
+          const peaks = await waveformGenerator.getPeaks(recording);
+          if (cancelled) return;
+          setWaveforms(prev => ({ ...prev, [recording.id]: peaks }));
+        } catch (error) {
+          console.error('Error loading waveform:', error);
+        }
       }
-    });
+    };
+
+    loadWaveforms();
 
-    const audio = createAudioElement(recording);
+    return () => {
+      cancelled = true;
+    };
+  }, [recordings]);
 
+  const togglePlayback = async (recording: RecordingMetadata) => {
     try {
-      await audio.play();
-      setPlaybackStates(prev => ({
-        ...prev,
-        [recording.id]: {
-          ...prev[recording.id],
-          isPlaying: true,
-          audio,
-        },
-      }));
+      await playbackController.toggle(recording);
     } catch (error) {
       console.error('Error playing audio:', error);
     }
   };
 
-  const pauseRecording = (recordingId: string) => {
-    const audio = audioRefs.current[recordingId];
-    if (audio) {
-      audio.pause();
-      setPlaybackStates(prev => ({
-        ...prev,
-        [recordingId]: {
-          ...prev[recordingId],
-          isPlaying: false,
-        },
-      }));
+  const seekTo = async (recording: RecordingMetadata, time: number) => {
+    try {
+      await playbackController.seek(recording, time);
+    } catch (error) {
+      console.error('Error seeking audio:', error);
     }
   };
 
-  const seekTo = (recordingId: string, time: number) => {
-    const audio = audioRefs.current[recordingId];
-    if (audio) {
-      audio.currentTime = time;
-      setPlaybackStates(prev => ({
-        ...prev,
-        [recordingId]: {
-          ...prev[recordingId],
-          currentTime: time,
-        },
-      }));
+  const saveMarkers = async (recording: RecordingMetadata, markers: RecordingMarker[]) => {
+    try {
+      await audioStorage.updateRecording({ ...recording, markers: markers.length > 0 ? markers : undefined });
+      onRecordingsChange();
+    } catch (error) {
+      console.error('Error saving markers:', error);
+    }
+  };
+
+  const changeTrack = (recording: RecordingMetadata, track: RecordingTrack) => {
+    const tracks = (trackEdits[recording.id] || recording.tracks || [])
+      .map(other => other.id === track.id ? track : other);
+    setTrackEdits(prev => ({ ...prev, [recording.id]: tracks }));
+    playbackController.updateTrack(track);
+
+    clearTimeout(trackSaveTimersRef.current[recording.id]);
+    trackSaveTimersRef.current[recording.id] = window.setTimeout(async () => {
+      delete trackSaveTimersRef.current[recording.id];
+      try {
+        // Re-read so marker or tag edits made during the delay are kept
+        const current = await audioStorage.getRecordingMetadata(recording.id);
+        if (!current) return;
+        await audioStorage.updateRecording({ ...current, tracks });
+        onRecordingsChange();
+      } catch (error) {
+        console.error('Error saving track mix:', error);
+      }
+    }, TRACK_SAVE_DELAY_MS);
+  };
+
+  const toggleTranscript = async (recording: RecordingMetadata) => {
+    if (recording.transcript) {
+      setVisibleTranscripts(prev => ({ ...prev, [recording.id]: !prev[recording.id] }));
+      return;
+    }
+
+    try {
+      setTranscribingId(recording.id);
+      setTranscriptionError(prev => ({ ...prev, [recording.id]: '' }));
+      await transcriptionClient.transcribe(recording);
+      setVisibleTranscripts(prev => ({ ...prev, [recording.id]: true }));
+      onRecordingsChange();
+    } catch (error) {
+      setTranscriptionError(prev => ({ ...prev, [recording.id]: 'Failed to transcribe recording' }));
+      console.error('Error transcribing recording:', error);
+    } finally {
+      setTranscribingId(null);
     }
   };
 
@@ -139,14 +211,8 @@ export default function RecordingsList({ recordings, onRecordingsChange }: Recor
     if (confirm('Are you sure you want to delete this recording?')) {
       try {
         await audioStorage.deleteRecording(recordingId);
-
-        // Cleanup audio element
-        const audio = audioRefs.current[recordingId];
-        if (audio) {
-          audio.pause();
-          URL.revokeObjectURL(audio.src);
-          delete audioRefs.current[recordingId];
-        }
+        await syncEngine.markDeleted([recordingId]);
+        playbackController.unload(recordingId);
 
         onRecordingsChange();
       } catch (error) {
@@ -165,7 +231,7 @@ export default function RecordingsList({ recordings, onRecordingsChange }: Recor
     return new Date(date).toLocaleDateString() + ' ' + new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
-  if (recordings.length === 0) {
+  if (recordings.length === 0 && isQueryEmpty(query)) {
     return (
       <div className="recordings-list empty">
         <p>No recordings yet. Start recording to see your audio files here!</p>
@@ -175,51 +241,121 @@ export default function RecordingsList({ recordings, onRecordingsChange }: Recor
 
   return (
     <div className="recordings-list">
-      <h2>Your Recordings ({recordings.length})</h2>
+      <h2>Your Recordings ({totalCount ?? recordings.length})</h2>
+      <RecordingFilters query={query} tags={tags} onChange={onQueryChange} />
+
+      {recordings.length === 0 && (
+        <p className="no-matches">No recordings match these filters.</p>
+      )}
+
       <div className="recordings-container">
         {recordings.map((recording) => {
-          const playbackState = playbackStates[recording.id] || {
-            isPlaying: false,
-            currentTime: 0,
-            duration: recording.duration,
-            audio: null,
-          };
+          const isCurrent = playback.recordingId === recording.id;
+          const isPlaying = isCurrent && playback.isPlaying;
+          const currentTime = isCurrent ? playback.currentTime : 0;
+          const duration = isCurrent ? playback.duration : recording.duration;
 
           return (
             <div key={recording.id} className="recording-item">
               <div className="recording-info">
-                <h3 className="recording-name">{recording.name}</h3>
-                <p className="recording-date">{formatDate(recording.createdAt)}</p>
+                <RecordingDetails
+                  recording={recording}
+                  onChange={() => onRecordingsChange()}
+                  onTagClick={(tag) => onQueryChange({ ...query, tag })}
+                />
+                <p className="recording-date">
+                  {formatDate(recording.createdAt)}
+                  {recording.originalId && (
+                    <span className="recording-version"> · Edited version {recording.version}</span>
+                  )}
+                  {recording.source === 'imported' && (
+                    <span className="recording-version"> · Imported</span>
+                  )}
+                  {recording.tracks && recording.tracks.length > 0 && (
+                    <span className="recording-version"> · {recording.tracks.length} tracks</span>
+                  )}
+                  <SyncBadge state={syncStates[recording.id]} />
+                </p>
               </div>
 
               <div className="playback-controls">
                 <button
-                  onClick={() =>
-                    playbackState.isPlaying
-                      ? pauseRecording(recording.id)
-                      : playRecording(recording)
-                  }
+                  onClick={() => togglePlayback(recording)}
                   className="play-pause-button"
+                  disabled={isCurrent && playback.isLoading}
                 >
-                  {playbackState.isPlaying ? '⏸️' : '▶️'}
+                  {isPlaying ? '⏸️' : '▶️'}
                 </button>
 
                 <div className="progress-container">
-                  <input
-                    type="range"
-                    min="0"
-                    max={playbackState.duration}
-                    value={playbackState.currentTime}
-                    onChange={(e) => seekTo(recording.id, Number(e.target.value))}
-                    className="progress-bar"
+                  <Waveform
+                    peaks={waveforms[recording.id] || null}
+                    currentTime={currentTime}
+                    duration={duration}
+                    loop={isCurrent && playback.loopStart !== null && playback.loopEnd !== null
+                      ? { start: playback.loopStart, end: playback.loopEnd }
+                      : null}
+                    markers={recording.markers}
+                    onSeek={(time) => seekTo(recording, time)}
                   />
                   <div className="time-display">
-                    <span>{formatTime(playbackState.currentTime)}</span>
+                    <span>{formatTime(currentTime)}</span>
                     <span>/</span>
-                    <span>{formatTime(playbackState.duration)}</span>
+                    <span>{formatTime(duration)}</span>
                   </div>
                 </div>
 
+                <button
+                  onClick={() => toggleTranscript(recording)}
+                  className="transcript-button"
+                  title={recording.transcript ? 'Show transcript' : 'Transcribe recording'}
+                  disabled={transcribingId === recording.id}
+                >
+                  {transcribingId === recording.id ? '⏳' : '📝'}
+                </button>
+
+                {recording.markers && recording.markers.length > 0 && (
+                  <button
+                    onClick={() => setVisibleMarkers(prev => ({ ...prev, [recording.id]: !prev[recording.id] }))}
+                    className="markers-button"
+                    title={`${recording.markers.length} marker${recording.markers.length !== 1 ? 's' : ''}`}
+                  >
+                    📍
+                  </button>
+                )}
+
+                <button
+                  onClick={() => setEditingId(editingId === recording.id ? null : recording.id)}
+                  className="edit-button"
+                  title="Edit recording"
+                >
+                  ✂️
+                </button>
+
+                <button
+                  onClick={() => setOverdubbingId(overdubbingId === recording.id ? null : recording.id)}
+                  className="overdub-button"
+                  title="Record over this recording"
+                >
+                  🎙️
+                </button>
+
+                <button
+                  onClick={() => setExportingId(exportingId === recording.id ? null : recording.id)}
+                  className="export-button"
+                  title="Export recording"
+                >
+                  ⬇️
+                </button>
+
+                <button
+                  onClick={() => setSharingId(sharingId === recording.id ? null : recording.id)}
+                  className="share-button"
+                  title="Share recording"
+                >
+                  🔗
+                </button>
+
                 <button
                   onClick={() => deleteRecording(recording.id)}
                   className="delete-button"
@@ -228,10 +364,79 @@ export default function RecordingsList({ recordings, onRecordingsChange }: Recor
                   🗑️
                 </button>
               </div>
+
+              {isCurrent && <PlaybackToolbar state={playback} />}
+              {isCurrent && recording.tracks && recording.tracks.length > 0 && (
+                <TrackMixer
+                  tracks={trackEdits[recording.id] || recording.tracks}
+                  mutedTracks={playback.mutedTracks}
+                  soloTracks={playback.soloTracks}
+                  onToggleMute={(trackId) => playbackController.setTrackMuted(trackId, !playback.mutedTracks.includes(trackId))}
+                  onToggleSolo={(trackId) => playbackController.setTrackSolo(trackId, !playback.soloTracks.includes(trackId))}
+                  onTrackChange={(track) => changeTrack(recording, track)}
+                />
+              )}
+
+              {recording.markers && recording.markers.length > 0 && visibleMarkers[recording.id] && (
+                <MarkerList
+                  markers={recording.markers}
+                  onChange={(markers) => saveMarkers(recording, markers)}
+                  onJump={(time) => seekTo(recording, time)}
+                  activeTime={isCurrent ? currentTime : undefined}
+                />
+              )}
+
+              {transcriptionError[recording.id] && (
+                <div className="transcript-error">{transcriptionError[recording.id]}</div>
+              )}
+
+              {recording.transcript && visibleTranscripts[recording.id] && (
+                <TranscriptView
+                  transcript={recording.transcript}
+                  currentTime={currentTime}
+                  onSeek={(time) => seekTo(recording, time)}
+                />
+              )}
+
+              {editingId === recording.id && (
+                <RecordingEditor
+                  recording={recording}
+                  onSaved={() => onRecordingsChange()}
+                  onClose={() => setEditingId(null)}
+                />
+              )}
+
+              {overdubbingId === recording.id && (
+                <OverdubStudio
+                  recording={recording}
+                  onSaved={() => onRecordingsChange()}
+                  onClose={() => setOverdubbingId(null)}
+                />
+              )}
+
+              {exportingId === recording.id && (
+                <RecordingExport
+                  recording={recording}
+                  onClose={() => setExportingId(null)}
+                />
+              )}
+
+              {sharingId === recording.id && (
+                <RecordingSharePanel
+                  recording={recording}
+                  onClose={() => setSharingId(null)}
+                />
+              )}
             </div>
           );
         })}
       </div>
+
+      {hasMore && onLoadMore && (
+        <button onClick={onLoadMore} className="load-more-button">
+          Load more recordings
+        </button>
+      )}
     </div>
   );
 }
\ No newline at end of file
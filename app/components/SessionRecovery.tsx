@@ -0,0 +1,57 @@
+'use client';
+
+import { useState } from 'react';
+import { RecordingSession } from '../types/audio';
+
+interface SessionRecoveryProps {
+  sessions: RecordingSession[];
+  onRecover: (session: RecordingSession) => Promise<void>;
+  onDiscard: (session: RecordingSession) => Promise<void>;
+}
+
+export default function SessionRecovery({ sessions, onRecover, onDiscard }: SessionRecoveryProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  const handleAction = async (session: RecordingSession, action: (session: RecordingSession) => Promise<void>) => {
+    setBusyId(session.id);
+    try {
+      await action(session);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="session-recovery">
+      <h3>Unfinished recording{sessions.length !== 1 ? 's' : ''} found</h3>
+      <p>These recordings were interrupted before they could be saved.</p>
+      <ul>
+        {sessions.map((session) => (
+          <li key={session.id}>
+            <span>Started {new Date(session.startedAt).toLocaleString()}</span>
+            <div className="session-recovery-actions">
+              <button
+                onClick={() => handleAction(session, onRecover)}
+                disabled={busyId !== null}
+                className="recover-button"
+              >
+                Recover
+              </button>
+              <button
+                onClick={() => handleAction(session, onDiscard)}
+                disabled={busyId !== null}
+                className="discard-button"
+              >
+                Discard
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
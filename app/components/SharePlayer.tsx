@@ -0,0 +1,79 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import Waveform from './Waveform';
+
+interface SharePlayerProps {
+  src: string;
+  duration: number;
+  peaks: number[];
+}
+
+export default function SharePlayer({ src, duration, peaks }: SharePlayerProps) {
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [currentTime, setCurrentTime] = useState<number>(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (audio.paused) {
+      audio.play();
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seekTo = (time: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = time;
+      setCurrentTime(time);
+    }
+  };
+
+  const formatTime = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="share-player">
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        }}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+      />
+
+      <div className="playback-controls">
+        <button onClick={togglePlayback} className="play-pause-button">
+          {isPlaying ? '⏸️' : '▶️'}
+        </button>
+
+        <div className="progress-container">
+          <Waveform
+            peaks={peaks.length > 0 ? peaks : null}
+            currentTime={currentTime}
+            duration={duration}
+            onSeek={seekTo}
+          />
+          <div className="time-display">
+            <span>{formatTime(currentTime)}</span>
+            <span>/</span>
+            <span>{formatTime(duration)}</span>
+          </div>
+        </div>
+      </div>
+
+      <a href={src} download className="share-download">Download</a>
+    </div>
+  );
+}
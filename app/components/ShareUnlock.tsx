@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface ShareUnlockProps {
+  token: string;
+}
+
+export default function ShareUnlock({ token }: ShareUnlockProps) {
+  const router = useRouter();
+  const [password, setPassword] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/shares/${token}/unlock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+
+      if (response.ok) {
+        router.refresh();
+        return;
+      }
+      setError(response.status === 401 ? 'Incorrect password' : 'This link is no longer available');
+    } catch (err) {
+      setError('Could not check the password. Please try again.');
+      console.error('Error unlocking share:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={unlock} className="share-unlock">
+      <label>
+        This recording is password protected
+        <input
+          type="password"
+          value={password}
+          autoFocus
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </label>
+      <button type="submit" disabled={isSubmitting || !password}>
+        {isSubmitting ? 'Checking…' : 'Listen'}
+      </button>
+      {error && <p className="share-error">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_DEFINITIONS,
+  ShortcutAction,
+  ShortcutBindings,
+  formatKey,
+  shortcutManager,
+} from '../lib/shortcuts';
+
+const GROUPS = ['Recording', 'Playback', 'General'] as const;
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+export default function ShortcutsHelp() {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [bindings, setBindings] = useState<ShortcutBindings>(DEFAULT_SHORTCUTS);
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    return shortcutManager.subscribe(setBindings);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (shortcutManager.match(event) === 'showHelp') {
+        event.preventDefault();
+        setIsOpen(open => !open);
+      } else if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!capturing) return;
+
+    // Capture phase, so the key being assigned does not also trigger its current action
+    const captureKey = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      if (MODIFIER_KEYS.includes(event.key)) return;
+
+      if (event.key !== 'Escape') {
+        shortcutManager.setBinding(capturing, event.key);
+      }
+      setCapturing(null);
+    };
+
+    window.addEventListener('keydown', captureKey, true);
+    return () => window.removeEventListener('keydown', captureKey, true);
+  }, [capturing]);
+
+  const close = () => {
+    setCapturing(null);
+    setIsOpen(false);
+  };
+
+  return (
+    <>
+      <button onClick={() => setIsOpen(true)} className="shortcuts-toggle" title="Keyboard shortcuts">
+        ⌨️ Shortcuts ({formatKey(bindings.showHelp)})
+      </button>
+
+      {isOpen && (
+        <div className="shortcuts-overlay" onClick={close}>
+          <div
+            className="shortcuts-dialog"
+            role="dialog"
+            aria-label="Keyboard shortcuts"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="shortcuts-header">
+              <h3>Keyboard shortcuts</h3>
+              <button onClick={close} title="Close">✕</button>
+            </div>
+
+            {GROUPS.map((group) => (
+              <div key={group} className="shortcuts-group">
+                <h4>{group}</h4>
+                {SHORTCUT_DEFINITIONS.filter(definition => definition.group === group).map((definition) => (
+                  <div key={definition.action} className="shortcut-row">
+                    <span>{definition.label}</span>
+                    <kbd>{formatKey(bindings[definition.action])}</kbd>
+                    <button onClick={() => setCapturing(definition.action)}>
+                      {capturing === definition.action ? 'Press a key…' : 'Change'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            <p className="shortcuts-note">
+              Hold the push-to-talk key to record; releasing it pauses the take until you press it again or stop.
+              Media keys on your keyboard or headset control playback.
+            </p>
+
+            <button onClick={() => shortcutManager.reset()} className="shortcuts-reset">
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
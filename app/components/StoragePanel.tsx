@@ -0,0 +1,274 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RecordingMetadata, RecordingSize, RetentionRule } from '../types/audio';
+import { STORAGE_BACKEND_LABELS, StorageBackendKind, audioStorage } from '../lib/audioStorage';
+import { StorageEstimateInfo, formatBytes, storageQuotaManager } from '../lib/storageQuota';
+import { describeRule, loadRetentionRules, saveRetentionRules } from '../lib/retention';
+import { syncEngine } from '../lib/syncEngine';
+import LibraryBackupPanel from './LibraryBackupPanel';
+
+interface StoragePanelProps {
+  onRecordingsChange: () => void;
+  // Recordings the retention rules removed when the app started
+  retentionDeletedCount?: number;
+}
+
+const LARGEST_SHOWN = 10;
+
+export default function StoragePanel({ onRecordingsChange, retentionDeletedCount = 0 }: StoragePanelProps) {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [estimate, setEstimate] = useState<StorageEstimateInfo | null>(null);
+  const [sizes, setSizes] = useState<RecordingSize[]>([]);
+  const [names, setNames] = useState<{ [id: string]: string }>({});
+  const [rules, setRules] = useState<RetentionRule[]>([]);
+  const [newRuleDays, setNewRuleDays] = useState<number>(90);
+  const [newRuleKeepTag, setNewRuleKeepTag] = useState<string>('keep');
+  const [message, setMessage] = useState<string>('');
+  const [backend, setBackend] = useState<StorageBackendKind>('indexeddb');
+  const [targetBackend, setTargetBackend] = useState<StorageBackendKind>('indexeddb');
+  const [migrationProgress, setMigrationProgress] = useState<number | null>(null);
+
+  useEffect(() => {
+    setRules(loadRetentionRules());
+  }, []);
+
+  useEffect(() => {
+    if (retentionDeletedCount > 0) {
+      setMessage(`Retention rules deleted ${retentionDeletedCount} recording${retentionDeletedCount !== 1 ? 's' : ''} at startup.`);
+    }
+  }, [retentionDeletedCount]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setBackend(audioStorage.getBackend());
+      setTargetBackend(audioStorage.getBackend());
+      loadUsage();
+    }
+  }, [isOpen]);
+
+  const loadUsage = async () => {
+    try {
+      const [storageEstimate, recordingSizes, recordings] = await Promise.all([
+        storageQuotaManager.estimate(),
+        audioStorage.getRecordingSizes(),
+        audioStorage.getRecordings(),
+      ]);
+
+      setEstimate(storageEstimate);
+      setSizes(recordingSizes);
+      setNames(Object.fromEntries(recordings.map((r: RecordingMetadata) => [r.id, r.name])));
+    } catch (error) {
+      console.error('Failed to load storage usage:', error);
+    }
+  };
+
+  const requestPersistence = async () => {
+    const granted = await storageQuotaManager.requestPersistence();
+    setMessage(granted
+      ? 'Storage is now persistent and will not be cleared automatically.'
+      : 'The browser declined persistent storage. Try again after using the app more, or bookmark it.');
+    await loadUsage();
+  };
+
+  const updateRules = (updated: RetentionRule[]) => {
+    setRules(updated);
+    saveRetentionRules(updated);
+  };
+
+  const addRule = () => {
+    if (newRuleDays <= 0) return;
+    updateRules([
+      ...rules,
+      {
+        id: `rule_${Date.now()}`,
+        enabled: true,
+        maxAgeDays: newRuleDays,
+        keepTag: newRuleKeepTag.trim().toLowerCase() || undefined,
+      },
+    ]);
+  };
+
+  const applyRulesNow = async () => {
+    if (!confirm('Delete every recording matched by the enabled rules now?')) return;
+
+    try {
+      const deleted = await audioStorage.enforceRetention(rules);
+      await syncEngine.markDeleted(deleted);
+      setMessage(`Deleted ${deleted.length} recording${deleted.length !== 1 ? 's' : ''}.`);
+      onRecordingsChange();
+      await loadUsage();
+    } catch (error) {
+      setMessage('Failed to apply retention rules');
+      console.error('Retention error:', error);
+    }
+  };
+
+  const migrateBackend = async () => {
+    if (!confirm(`Move every recording to ${STORAGE_BACKEND_LABELS[targetBackend]}?`)) return;
+
+    setMigrationProgress(0);
+    try {
+      await audioStorage.migrateTo(targetBackend, setMigrationProgress);
+      setBackend(audioStorage.getBackend());
+      setMessage(`Recordings moved to ${STORAGE_BACKEND_LABELS[targetBackend]}.`);
+      onRecordingsChange();
+      await loadUsage();
+    } catch (error) {
+      setMessage('Failed to move recordings; they are still in the previous storage.');
+      console.error('Storage migration error:', error);
+    } finally {
+      setMigrationProgress(null);
+    }
+  };
+
+  const recordingsTotal = sizes.reduce((total, size) => total + size.bytes, 0);
+  const usagePercent = estimate && estimate.quota > 0 ? (estimate.usage / estimate.quota) * 100 : 0;
+
+  return (
+    <div className="storage-panel">
+      <button onClick={() => setIsOpen(!isOpen)} className="storage-toggle">
+        💾 Storage {isOpen ? '▲' : '▼'}
+      </button>
+
+      {isOpen && (
+        <div className="storage-content">
+          {estimate ? (
+            <>
+              <div className="storage-bar">
+                <div
+                  className={`storage-bar-fill ${usagePercent > 90 ? 'critical' : usagePercent > 75 ? 'warning' : ''}`}
+                  style={{ width: `${Math.min(100, usagePercent)}%` }}
+                />
+              </div>
+              <div className="storage-summary">
+                <span>{formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} used</span>
+                <span>Recordings: {formatBytes(recordingsTotal)}</span>
+              </div>
+              <div className="storage-persistence">
+                {estimate.persisted ? (
+                  <span>🔒 Persistent storage granted</span>
+                ) : (
+                  <>
+                    <span>⚠️ The browser may clear recordings when space runs low.</span>
+                    <button onClick={requestPersistence}>Request persistent storage</button>
+                  </>
+                )}
+              </div>
+            </>
+          ) : (
+            <p>Storage estimates are not available in this browser.</p>
+          )}
+
+          {sizes.length > 0 && (
+            <table className="storage-table">
+              <thead>
+                <tr>
+                  <th>Largest recordings</th>
+                  <th>Size</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sizes.slice(0, LARGEST_SHOWN).map((size) => (
+                  <tr key={size.recordingId}>
+                    <td>{names[size.recordingId] || size.recordingId}</td>
+                    <td>{formatBytes(size.bytes)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="storage-backend">
+            <h4>Storage backend</h4>
+            <p>Currently using {STORAGE_BACKEND_LABELS[backend]}.</p>
+            {backend === 'memory' && (
+              <p className="storage-backend-warning">
+                ⚠️ Recordings are only kept until this page is closed or reloaded.
+              </p>
+            )}
+
+            <div className="storage-backend-controls">
+              <select
+                value={targetBackend}
+                onChange={(e) => setTargetBackend(e.target.value as StorageBackendKind)}
+                disabled={migrationProgress !== null}
+              >
+                {audioStorage.getMigrationTargets().map((kind) => (
+                  <option key={kind} value={kind}>{STORAGE_BACKEND_LABELS[kind]}</option>
+                ))}
+              </select>
+              <button
+                onClick={migrateBackend}
+                disabled={targetBackend === backend || migrationProgress !== null}
+              >
+                {migrationProgress !== null
+                  ? `Moving... ${Math.round(migrationProgress * 100)}%`
+                  : 'Move recordings'}
+              </button>
+            </div>
+          </div>
+
+          <div className="retention-rules">
+            <h4>Retention rules</h4>
+            <p>Enabled rules run every time the app starts.</p>
+
+            {rules.length === 0 && <p className="retention-empty">No rules configured.</p>}
+            {rules.map((rule) => (
+              <div key={rule.id} className="retention-rule">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRules(rules.map(r =>
+                      r.id === rule.id ? { ...r, enabled: e.target.checked } : r
+                    ))}
+                  />
+                  {describeRule(rule)}
+                </label>
+                <button
+                  onClick={() => updateRules(rules.filter(r => r.id !== rule.id))}
+                  title="Remove rule"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+
+            <div className="retention-new-rule">
+              <span>Delete older than</span>
+              <input
+                type="number"
+                min="1"
+                value={newRuleDays}
+                onChange={(e) => setNewRuleDays(Number(e.target.value))}
+              />
+              <span>days unless tagged</span>
+              <input
+                type="text"
+                value={newRuleKeepTag}
+                placeholder="(no exception)"
+                onChange={(e) => setNewRuleKeepTag(e.target.value)}
+              />
+              <button onClick={addRule}>Add rule</button>
+            </div>
+
+            {rules.some(rule => rule.enabled) && (
+              <button onClick={applyRulesNow} className="retention-apply">
+                Apply rules now
+              </button>
+            )}
+          </div>
+
+          {message && <p className="storage-message">{message}</p>}
+
+          <div className="backup-section">
+            <h4>Backup</h4>
+            <p>Export every recording and its details as a single zip file, or restore one.</p>
+            <LibraryBackupPanel onRecordingsChange={onRecordingsChange} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { RecordingSyncState } from '../types/audio';
+
+interface SyncBadgeProps {
+  state?: RecordingSyncState;
+}
+
+export default function SyncBadge({ state }: SyncBadgeProps) {
+  if (!state || state.status === 'deleted') return null;
+
+  switch (state.status) {
+    case 'synced':
+      return (
+        <span className="sync-badge synced" title={`Synced ${state.lastSyncedAt ? new Date(state.lastSyncedAt).toLocaleString() : ''}`}>
+          ☁️ Synced
+        </span>
+      );
+    case 'uploading': {
+      const percent = state.totalBytes ? Math.round(((state.uploadedBytes || 0) / state.totalBytes) * 100) : 0;
+      return <span className="sync-badge uploading">⏫ Uploading {percent}%</span>;
+    }
+    case 'error':
+      return (
+        <span className="sync-badge error" title={state.error}>
+          ⚠️ Sync failed{state.uploadedBytes ? ', will resume' : ''}
+        </span>
+      );
+    default:
+      return <span className="sync-badge pending">⏳ Waiting to sync</span>;
+  }
+}
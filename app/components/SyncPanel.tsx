@@ -0,0 +1,105 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  SyncSnapshot,
+  loadServerKey,
+  loadSyncEnabled,
+  saveServerKey,
+  saveSyncEnabled,
+  syncEngine,
+} from '../lib/syncEngine';
+
+interface SyncPanelProps {
+  onRemoteChange: () => void;
+}
+
+export default function SyncPanel({ onRemoteChange }: SyncPanelProps) {
+  const [isEnabled, setIsEnabled] = useState<boolean>(false);
+  const [snapshot, setSnapshot] = useState<SyncSnapshot>(syncEngine.getSnapshot());
+  const [isOnline, setIsOnline] = useState<boolean>(true);
+  const [serverKey, setServerKey] = useState<string>('');
+
+  useEffect(() => {
+    const enabled = loadSyncEnabled();
+    setIsEnabled(enabled);
+    setServerKey(loadServerKey());
+    setIsOnline(navigator.onLine);
+
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    const unsubscribe = syncEngine.subscribe(setSnapshot);
+
+    if (enabled) {
+      syncEngine.start(onRemoteChange);
+    }
+
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+      unsubscribe();
+      syncEngine.stop();
+    };
+  }, []);
+
+  const toggleSync = (enabled: boolean) => {
+    setIsEnabled(enabled);
+    saveSyncEnabled(enabled);
+    if (enabled) {
+      syncEngine.start(onRemoteChange);
+    } else {
+      syncEngine.stop();
+    }
+  };
+
+  const changeServerKey = (key: string) => {
+    setServerKey(key);
+    saveServerKey(key.trim());
+  };
+
+  const pendingCount = Object.values(snapshot.states)
+    .filter(state => state.status === 'uploading' || state.status === 'error').length;
+
+  return (
+    <div className="sync-panel">
+      <label className="sync-toggle">
+        <input
+          type="checkbox"
+          checked={isEnabled}
+          onChange={(e) => toggleSync(e.target.checked)}
+        />
+        <span>Sync recordings with the server</span>
+      </label>
+
+      <label className="sync-key">
+        <span>Server key</span>
+        <input
+          type="password"
+          value={serverKey}
+          onChange={(e) => changeServerKey(e.target.value)}
+          placeholder="RECORDINGS_API_KEY"
+          autoComplete="off"
+        />
+      </label>
+
+      {isEnabled && (
+        <div className="sync-status">
+          {!isOnline ? (
+            <span>📴 Offline — uploads resume when the connection returns</span>
+          ) : snapshot.isSyncing ? (
+            <span>🔄 Syncing…</span>
+          ) : snapshot.lastError ? (
+            <span className="sync-error">⚠️ {snapshot.lastError}</span>
+          ) : snapshot.lastSyncedAt ? (
+            <span>Last synced {snapshot.lastSyncedAt.toLocaleTimeString()}</span>
+          ) : null}
+          {pendingCount > 0 && <span>{pendingCount} unfinished upload{pendingCount !== 1 ? 's' : ''}</span>}
+          <button onClick={() => syncEngine.sync()} disabled={snapshot.isSyncing || !isOnline}>
+            Sync now
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { RecordingTrack } from '../types/audio';
+import { getTrackPan, getTrackVolume, isTrackAudible } from '../lib/multitrack';
+
+interface TrackMixerProps {
+  tracks: RecordingTrack[];
+  mutedTracks: string[];
+  soloTracks: string[];
+  onToggleMute: (trackId: string) => void;
+  onToggleSolo: (trackId: string) => void;
+  onTrackChange?: (track: RecordingTrack) => void;
+  onRemoveTrack?: (trackId: string) => void;
+}
+
+const formatPan = (pan: number): string => {
+  if (Math.abs(pan) < 0.05) return 'C';
+  return `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`;
+};
+
+export default function TrackMixer({
+  tracks,
+  mutedTracks,
+  soloTracks,
+  onToggleMute,
+  onToggleSolo,
+  onTrackChange,
+  onRemoveTrack,
+}: TrackMixerProps) {
+  return (
+    <div className="track-mixer">
+      {tracks.map((track) => {
+        const isMuted = mutedTracks.includes(track.id);
+        const isSolo = soloTracks.includes(track.id);
+        const isAudible = isTrackAudible(track.id, mutedTracks, soloTracks);
+        const volume = getTrackVolume(track);
+        const pan = getTrackPan(track);
+
+        return (
+          <div key={track.id} className={`track-row ${isAudible ? '' : 'silenced'}`}>
+            <span className="track-label" title={track.label}>{track.label}</span>
+            <button
+              onClick={() => onToggleMute(track.id)}
+              className={`track-toggle ${isMuted ? 'active' : ''}`}
+              title={isMuted ? 'Unmute track' : 'Mute track'}
+            >
+              M
+            </button>
+            <button
+              onClick={() => onToggleSolo(track.id)}
+              className={`track-toggle solo ${isSolo ? 'active' : ''}`}
+              title={isSolo ? 'Stop soloing track' : 'Solo track'}
+            >
+              S
+            </button>
+            {onTrackChange && (
+              <>
+                <label className="track-slider" title="Volume">
+                  <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.05}
+                    value={volume}
+                    onChange={(e) => onTrackChange({ ...track, volume: Number(e.target.value) })}
+                  />
+                  <span>{Math.round(volume * 100)}%</span>
+                </label>
+                <label className="track-slider" title="Pan">
+                  <input
+                    type="range"
+                    min={-1}
+                    max={1}
+                    step={0.05}
+                    value={pan}
+                    onChange={(e) => onTrackChange({ ...track, pan: Number(e.target.value) })}
+                    onDoubleClick={() => onTrackChange({ ...track, pan: 0 })}
+                  />
+                  <span>{formatPan(pan)}</span>
+                </label>
+              </>
+            )}
+            {onRemoveTrack && (
+              <button
+                onClick={() => onRemoveTrack(track.id)}
+                className="track-toggle"
+                title="Remove track"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { Transcript } from '../types/audio';
+import { transcriptionClient } from '../lib/transcriptionClient';
+
+interface TranscriptViewProps {
+  transcript: Transcript;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+export default function TranscriptView({ transcript, currentTime, onSeek }: TranscriptViewProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const activeRef = useRef<HTMLButtonElement | null>(null);
+  const activeIndex = transcriptionClient.getActiveSegmentIndex(transcript, currentTime);
+
+  useEffect(() => {
+    // Keep the active segment visible by scrolling the transcript box, not the page
+    const container = containerRef.current;
+    const active = activeRef.current;
+    if (!container || !active) return;
+
+    const top = active.offsetTop;
+    const bottom = top + active.offsetHeight;
+    if (top < container.scrollTop || bottom > container.scrollTop + container.clientHeight) {
+      container.scrollTop = top;
+    }
+  }, [activeIndex]);
+
+  const formatTime = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  if (transcript.segments.length === 0) {
+    return <div className="transcript-view empty">No speech found in this recording.</div>;
+  }
+
+  return (
+    <div className="transcript-view" ref={containerRef}>
+      {transcript.segments.map((segment, i) => (
+        <button
+          key={i}
+          ref={i === activeIndex ? activeRef : null}
+          onClick={() => onSeek(segment.start)}
+          className={`transcript-segment ${i === activeIndex ? 'active' : ''}`}
+        >
+          <span className="transcript-time">{formatTime(segment.start)}</span>
+          <span className="transcript-text">{segment.text}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
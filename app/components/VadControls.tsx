@@ -0,0 +1,90 @@
+'use client';
+
+import { VadSettings, MIN_LEVEL_DB } from '../lib/voiceActivity';
+
+interface VadControlsProps {
+  settings: VadSettings;
+  onChange: (settings: VadSettings) => void;
+  levelDb: number | null;
+  isSpeech: boolean;
+}
+
+const toPercent = (db: number): number => Math.max(0, Math.min(100, ((db - MIN_LEVEL_DB) / -MIN_LEVEL_DB) * 100));
+
+export default function VadControls({ settings, onChange, levelDb, isSpeech }: VadControlsProps) {
+  const update = (changes: Partial<VadSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  return (
+    <div className="vad-controls">
+      <label className="vad-toggle">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+        />
+        <span>Voice activation (auto-pause on silence)</span>
+      </label>
+
+      {settings.enabled && (
+        <>
+          <div className="vad-meter" title="Detector input level">
+            <div
+              className={`vad-meter-fill ${isSpeech ? 'speech' : ''}`}
+              style={{ width: `${levelDb === null ? 0 : toPercent(levelDb)}%` }}
+            />
+            <div className="vad-meter-threshold" style={{ left: `${toPercent(settings.thresholdDb)}%` }} />
+          </div>
+          <div className="vad-readout">
+            <span>Level {levelDb === null ? '--' : levelDb.toFixed(0)} dB</span>
+            <span>{isSpeech ? 'Speech' : 'Silence'}</span>
+          </div>
+
+          <div className="vad-settings">
+            <label>
+              Threshold: {settings.thresholdDb} dB
+              <input
+                type="range"
+                min={MIN_LEVEL_DB}
+                max="0"
+                step="1"
+                value={settings.thresholdDb}
+                onChange={(e) => update({ thresholdDb: Number(e.target.value) })}
+              />
+            </label>
+
+            <label>
+              Pause after (s)
+              <input
+                type="number"
+                min="0.5"
+                step="0.5"
+                value={settings.pauseAfterSeconds}
+                onChange={(e) => update({ pauseAfterSeconds: Math.max(0.5, Number(e.target.value)) })}
+              />
+            </label>
+
+            <label className="vad-toggle">
+              <input
+                type="checkbox"
+                checked={settings.autoStopEnabled}
+                onChange={(e) => update({ autoStopEnabled: e.target.checked })}
+              />
+              <span>Stop after</span>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={settings.stopAfterSeconds}
+                disabled={!settings.autoStopEnabled}
+                onChange={(e) => update({ stopAfterSeconds: Math.max(1, Number(e.target.value)) })}
+              />
+              <span>s of silence</span>
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { RecordingMarker, TimeRange } from '../types/audio';
+
+interface WaveformProps {
+  peaks: number[] | null;
+  currentTime: number;
+  duration: number;
+  loop?: TimeRange | null;
+  markers?: RecordingMarker[];
+  onSeek: (time: number) => void;
+}
+
+const PLAYED_COLOR = '#5f27cd';
+const UNPLAYED_COLOR = '#c8d1da';
+const LOOP_COLOR = 'rgba(95, 39, 205, 0.12)';
+const MARKER_COLOR = '#f59e0b';
+const KEYBOARD_SEEK_STEP = 5;
+
+export default function Waveform({ peaks, currentTime, duration, loop = null, markers = [], onSeek }: WaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    // Match the backing store to the displayed size for crisp bars
+    const ratio = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    context.scale(ratio, ratio);
+    context.clearRect(0, 0, width, height);
+
+    if (loop && duration > 0) {
+      context.fillStyle = LOOP_COLOR;
+      context.fillRect((loop.start / duration) * width, 0, ((loop.end - loop.start) / duration) * width, height);
+    }
+
+    const drawMarkers = () => {
+      if (duration <= 0) return;
+      context.fillStyle = MARKER_COLOR;
+      markers.forEach(marker => {
+        context.fillRect(Math.min(width - 2, (marker.time / duration) * width), 0, 2, height);
+      });
+    };
+
+    if (!peaks || peaks.length === 0) {
+      context.fillStyle = UNPLAYED_COLOR;
+      context.fillRect(0, height / 2 - 1, width, 2);
+      drawMarkers();
+      return;
+    }
+
+    const progress = duration > 0 ? currentTime / duration : 0;
+    const barWidth = width / peaks.length;
+    const maxPeak = Math.max(...peaks, 0.01);
+
+    peaks.forEach((peak, i) => {
+      const barHeight = Math.max(2, (peak / maxPeak) * height);
+      context.fillStyle = i / peaks.length < progress ? PLAYED_COLOR : UNPLAYED_COLOR;
+      context.fillRect(i * barWidth, (height - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+    drawMarkers();
+  }, [peaks, currentTime, duration, loop?.start, loop?.end, markers]);
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (duration <= 0) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const position = (event.clientX - rect.left) / rect.width;
+    onSeek(Math.max(0, Math.min(1, position)) * duration);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLCanvasElement>) => {
+    // Handled here, so the global seek shortcuts must not fire as well
+    if (event.key === 'ArrowLeft') {
+      event.stopPropagation();
+      onSeek(Math.max(0, currentTime - KEYBOARD_SEEK_STEP));
+    } else if (event.key === 'ArrowRight') {
+      event.stopPropagation();
+      onSeek(Math.min(duration, currentTime + KEYBOARD_SEEK_STEP));
+    }
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="waveform"
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
+      role="slider"
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={duration}
+      aria-valuenow={currentTime}
+    />
+  );
+}
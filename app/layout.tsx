@@ -1,4 +1,4 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 
@@ -13,8 +13,17 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: "Audio Recorder",
+  description: "Record, edit and organise audio, online or off.",
+  applicationName: "Audio Recorder",
+  appleWebApp: {
+    capable: true,
+    title: "Recorder",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#5f27cd",
 };
 
 export default function RootLayout({
@@ -4,11 +4,24 @@ export interface AudioDevice {
   groupId: string;
 }
 
+const LAST_DEVICE_KEY = 'audioRecorder.lastMicrophone';
+
+// Browsers rotate deviceIds (e.g. when site data is cleared), so a remembered
+// device is matched by id first and then by its label and groupId
+export const findDevice = (devices: AudioDevice[], wanted: AudioDevice | null): AudioDevice | null => {
+  if (!wanted) return null;
+  return devices.find(d => d.deviceId === wanted.deviceId)
+    || devices.find(d => d.label === wanted.label && d.groupId === wanted.groupId)
+    || devices.find(d => d.label === wanted.label)
+    || null;
+};
+
 export class AudioDeviceManager {
   async getAudioInputDevices(): Promise<AudioDevice[]> {
     try {
       // Request permissions first to get device labels
-      await navigator.mediaDevices.getUserMedia({ audio: true });
+      const permissionStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      permissionStream.getTracks().forEach(track => track.stop());
 
       const devices = await navigator.mediaDevices.enumerateDevices();
       const audioInputs = devices.filter(device => device.kind === 'audioinput');
@@ -34,24 +47,26 @@ export class AudioDeviceManager {
     }
   }
 
-  async testDevice(deviceId: string): Promise<boolean> {
+  loadLastDevice(): AudioDevice | null {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: { deviceId: { exact: deviceId } }
-      });
-
-      // Test if the device is working by checking if we get audio tracks
-      const audioTracks = stream.getAudioTracks();
-      const isWorking = audioTracks.length > 0 && audioTracks[0].readyState === 'live';
+      const saved = localStorage.getItem(LAST_DEVICE_KEY);
+      return saved ? JSON.parse(saved) : null;
+    } catch {
+      return null;
+    }
+  }
 
-      // Stop the test stream
-      stream.getTracks().forEach(track => track.stop());
+  rememberDevice(device: AudioDevice): void {
+    localStorage.setItem(LAST_DEVICE_KEY, JSON.stringify(device));
+  }
 
-      return isWorking;
-    } catch (error) {
-      console.error('Error testing device:', error);
-      return false;
-    }
+  // The configured default wins, then the last mic used, then the system default
+  pickPreferred(devices: AudioDevice[], defaultDevice: AudioDevice | null): AudioDevice | null {
+    return findDevice(devices, defaultDevice)
+      || findDevice(devices, this.loadLastDevice())
+      || devices.find(d => d.deviceId === 'default')
+      || devices[0]
+      || null;
   }
 }
 
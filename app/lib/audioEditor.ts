@@ -0,0 +1,106 @@
+import { AudioRecording, RecordingEdits, TimeRange } from '../types/audio';
+import { audioExporter } from './audioExport';
+import { audioStorage } from './audioStorage';
+import { remapMarkers } from './markers';
+
+export const createEmptyEdits = (duration: number): RecordingEdits => ({
+  inPoint: 0,
+  outPoint: duration,
+  cuts: [],
+});
+
+// Resolves in/out points and cut regions into the ordered ranges that survive the edit
+export const getKeptRanges = (edits: RecordingEdits): TimeRange[] => {
+  const cuts = edits.cuts
+    .map(cut => ({
+      start: Math.max(edits.inPoint, Math.min(cut.start, cut.end)),
+      end: Math.min(edits.outPoint, Math.max(cut.start, cut.end)),
+    }))
+    .filter(cut => cut.end > cut.start)
+    .sort((a, b) => a.start - b.start);
+
+  const ranges: TimeRange[] = [];
+  let cursor = edits.inPoint;
+
+  for (const cut of cuts) {
+    if (cut.start > cursor) {
+      ranges.push({ start: cursor, end: cut.start });
+    }
+    cursor = Math.max(cursor, cut.end);
+  }
+  if (edits.outPoint > cursor) {
+    ranges.push({ start: cursor, end: edits.outPoint });
+  }
+
+  return ranges;
+};
+
+export const getEditedDuration = (edits: RecordingEdits): number =>
+  getKeptRanges(edits).reduce((total, range) => total + (range.end - range.start), 0);
+
+export class AudioEditor {
+  async decode(blob: Blob): Promise<AudioBuffer> {
+    const audioContext = new AudioContext();
+    try {
+      return await audioContext.decodeAudioData(await blob.arrayBuffer());
+    } finally {
+      audioContext.close();
+    }
+  }
+
+  renderEdits(source: AudioBuffer, edits: RecordingEdits): AudioBuffer {
+    const ranges = getKeptRanges(edits).map(range => ({
+      start: Math.floor(range.start * source.sampleRate),
+      end: Math.min(source.length, Math.floor(range.end * source.sampleRate)),
+    }));
+    const length = Math.max(1, ranges.reduce((total, range) => total + (range.end - range.start), 0));
+
+    const output = new AudioBuffer({
+      length,
+      numberOfChannels: source.numberOfChannels,
+      sampleRate: source.sampleRate,
+    });
+
+    for (let channel = 0; channel < source.numberOfChannels; channel++) {
+      const input = source.getChannelData(channel);
+      const target = output.getChannelData(channel);
+      let offset = 0;
+
+      for (const range of ranges) {
+        target.set(input.subarray(range.start, range.end), offset);
+        offset += range.end - range.start;
+      }
+    }
+
+    return output;
+  }
+
+  // Renders the edits into a new version; the original recording is never modified
+  async saveVersion(original: AudioRecording, edits: RecordingEdits): Promise<AudioRecording> {
+    const source = await this.decode(original.blob);
+    const rendered = this.renderEdits(source, edits);
+    const blob = await audioExporter.encodeWav(rendered);
+
+    const versions = await audioStorage.getVersions(original.id);
+    const version = versions.reduce((max, v) => Math.max(max, v.version || 1), 1) + 1;
+
+    const recording: AudioRecording = {
+      id: `recording_${Date.now()}`,
+      name: `${original.name} (v${version})`,
+      blob,
+      duration: Math.round(rendered.duration),
+      createdAt: new Date(),
+      mimeType: 'audio/wav',
+      originalId: original.id,
+      version,
+      edits,
+      markers: original.markers ? remapMarkers(original.markers, getKeptRanges(edits)) : undefined,
+      source: original.source,
+    };
+
+    await audioStorage.saveRecording(recording);
+    return recording;
+  }
+}
+
+export const audioEditor = new AudioEditor();
@@ -0,0 +1,156 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { AudioRecording, RecordingMetadata } from '../types/audio';
+
+export type ExportFormat = 'wav' | 'mp3';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  sampleRate: number;
+  bitrate: number;
+  onProgress?: (progress: number) => void;
+}
+
+export const EXPORT_SAMPLE_RATES = [22050, 32000, 44100, 48000];
+export const MP3_BITRATES = [96, 128, 192, 256, 320];
+
+const MP3_FRAME_SIZE = 1152;
+const SAMPLES_PER_STEP = MP3_FRAME_SIZE * 64;
+
+// Give the browser a chance to repaint between encoding steps
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const floatToInt16 = (sample: number): number => {
+  const clamped = Math.max(-1, Math.min(1, sample));
+  return clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+};
+
+export class AudioExporter {
+  async decodeAudio(blob: Blob, sampleRate: number): Promise<AudioBuffer> {
+    const audioContext = new AudioContext();
+    try {
+      const decoded = await audioContext.decodeAudioData(await blob.arrayBuffer());
+      if (decoded.sampleRate === sampleRate) {
+        return decoded;
+      }
+
+      // Resample by rendering the decoded buffer through an offline context
+      const length = Math.ceil(decoded.duration * sampleRate);
+      const offlineContext = new OfflineAudioContext(decoded.numberOfChannels, length, sampleRate);
+      const source = offlineContext.createBufferSource();
+      source.buffer = decoded;
+      source.connect(offlineContext.destination);
+      source.start();
+      return await offlineContext.startRendering();
+    } finally {
+      audioContext.close();
+    }
+  }
+
+  async encodeWav(buffer: AudioBuffer, onProgress?: (progress: number) => void): Promise<Blob> {
+    const numChannels = buffer.numberOfChannels;
+    const bytesPerSample = 2;
+    const blockAlign = numChannels * bytesPerSample;
+    const dataSize = buffer.length * blockAlign;
+    const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+    const writeString = (offset: number, value: string) => {
+      for (let i = 0; i < value.length; i++) {
+        view.setUint8(offset + i, value.charCodeAt(i));
+      }
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, numChannels, true);
+    view.setUint32(24, buffer.sampleRate, true);
+    view.setUint32(28, buffer.sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bytesPerSample * 8, true);
+    writeString(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    const channels = Array.from({ length: numChannels }, (_, i) => buffer.getChannelData(i));
+    let offset = 44;
+
+    for (let start = 0; start < buffer.length; start += SAMPLES_PER_STEP) {
+      const end = Math.min(start + SAMPLES_PER_STEP, buffer.length);
+      for (let i = start; i < end; i++) {
+        for (let channel = 0; channel < numChannels; channel++) {
+          view.setInt16(offset, floatToInt16(channels[channel][i]), true);
+          offset += bytesPerSample;
+        }
+      }
+      onProgress?.(end / buffer.length);
+      await yieldToBrowser();
+    }
+
+    return new Blob([view.buffer], { type: 'audio/wav' });
+  }
+
+  async encodeMp3(buffer: AudioBuffer, bitrate: number, onProgress?: (progress: number) => void): Promise<Blob> {
+    // The encoder only supports mono and stereo, so extra channels are dropped
+    const numChannels = Math.min(buffer.numberOfChannels, 2);
+    const encoder = new Mp3Encoder(numChannels, buffer.sampleRate, bitrate);
+
+    const toInt16 = (data: Float32Array): Int16Array => {
+      const samples = new Int16Array(data.length);
+      for (let i = 0; i < data.length; i++) {
+        samples[i] = floatToInt16(data[i]);
+      }
+      return samples;
+    };
+
+    const left = toInt16(buffer.getChannelData(0));
+    const right = numChannels > 1 ? toInt16(buffer.getChannelData(1)) : undefined;
+    const parts: Uint8Array[] = [];
+
+    for (let start = 0; start < buffer.length; start += SAMPLES_PER_STEP) {
+      const end = Math.min(start + SAMPLES_PER_STEP, buffer.length);
+      const frame = encoder.encodeBuffer(left.subarray(start, end), right?.subarray(start, end));
+      if (frame.length > 0) {
+        parts.push(frame);
+      }
+      onProgress?.(end / buffer.length);
+      await yieldToBrowser();
+    }
+
+    const tail = encoder.flush();
+    if (tail.length > 0) {
+      parts.push(tail);
+    }
+
+    return new Blob(parts as BlobPart[], { type: 'audio/mpeg' });
+  }
+
+  async exportRecording(recording: AudioRecording, options: ExportOptions): Promise<Blob> {
+    const buffer = await this.decodeAudio(recording.blob, options.sampleRate);
+
+    if (options.format === 'mp3') {
+      return this.encodeMp3(buffer, options.bitrate, options.onProgress);
+    }
+    return this.encodeWav(buffer, options.onProgress);
+  }
+
+  getExportFilename(recording: RecordingMetadata, format: ExportFormat): string {
+    const baseName = recording.name.replace(/[\\/:*?"<>|]+/g, '-').trim() || recording.id;
+    return `${baseName}.${format}`;
+  }
+
+  downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoke on the next tick so the download has started
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+}
+
+export const audioExporter = new AudioExporter();
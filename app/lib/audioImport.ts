@@ -0,0 +1,118 @@
+import { AudioRecording } from '../types/audio';
+import { audioStorage } from './audioStorage';
+
+export class AudioImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioImportError';
+  }
+}
+
+export interface AudioImportResult {
+  imported: AudioRecording[];
+  // One readable message per file that was not imported
+  errors: string[];
+}
+
+const EXTENSION_MIME_TYPES: { [extension: string]: string } = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  ogg: 'audio/ogg',
+  webm: 'audio/webm',
+};
+
+// Types browsers and other apps report for the same formats
+const MIME_TYPE_ALIASES: { [mimeType: string]: string } = {
+  'audio/wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/x-wav': 'audio/wav',
+  'audio/mpeg': 'audio/mpeg',
+  'audio/mp3': 'audio/mpeg',
+  'audio/mp4': 'audio/mp4',
+  'audio/x-m4a': 'audio/mp4',
+  'audio/m4a': 'audio/mp4',
+  'audio/ogg': 'audio/ogg',
+  'video/ogg': 'audio/ogg',
+  'audio/webm': 'audio/webm',
+  'video/webm': 'audio/webm',
+};
+
+export const IMPORT_ACCEPT = Object.keys(EXTENSION_MIME_TYPES).map(extension => `.${extension}`).join(',');
+const SUPPORTED_LABEL = Object.keys(EXTENSION_MIME_TYPES).map(extension => extension.toUpperCase()).join(', ');
+
+const getExtension = (filename: string): string => {
+  const dot = filename.lastIndexOf('.');
+  return dot > 0 ? filename.slice(dot + 1).toLowerCase() : '';
+};
+
+// The reported type wins, since shared files often arrive without an extension
+const resolveMimeType = (file: File): string | null =>
+  MIME_TYPE_ALIASES[file.type.split(';')[0].trim()] || EXTENSION_MIME_TYPES[getExtension(file.name)] || null;
+
+// Turns audio files from outside the app into recordings in the library
+export class AudioImporter {
+  async importFile(file: File): Promise<AudioRecording> {
+    const mimeType = resolveMimeType(file);
+    if (!mimeType) {
+      throw new AudioImportError(`"${file.name}" is not a supported audio file. Use ${SUPPORTED_LABEL}.`);
+    }
+    if (file.size === 0) {
+      throw new AudioImportError(`"${file.name}" is empty.`);
+    }
+
+    const duration = await this.getDuration(file);
+    if (duration === null) {
+      throw new AudioImportError(
+        `"${file.name}" could not be read. It may be damaged or use a codec this browser cannot play.`
+      );
+    }
+
+    const recording: AudioRecording = {
+      id: `recording_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: file.name,
+      blob: file.type === mimeType ? file : file.slice(0, file.size, mimeType),
+      duration,
+      createdAt: new Date(),
+      mimeType,
+      source: 'imported',
+    };
+
+    await audioStorage.saveRecording(recording);
+    return recording;
+  }
+
+  // Files are decoded one at a time so a large batch never holds every buffer at once
+  async importFiles(files: File[], onProgress?: (done: number, total: number) => void): Promise<AudioImportResult> {
+    const result: AudioImportResult = { imported: [], errors: [] };
+
+    for (let i = 0; i < files.length; i++) {
+      onProgress?.(i, files.length);
+      try {
+        result.imported.push(await this.importFile(files[i]));
+      } catch (error) {
+        console.error(`Failed to import ${files[i].name}:`, error);
+        result.errors.push(error instanceof AudioImportError ? error.message : `"${files[i].name}" could not be saved.`);
+      }
+    }
+    onProgress?.(files.length, files.length);
+
+    return result;
+  }
+
+  // Decoding gives the real length, since container headers are often missing
+  // or wrong; null when the data cannot be decoded at all
+  private async getDuration(file: Blob): Promise<number | null> {
+    const audioContext = new AudioContext();
+    try {
+      const buffer = await audioContext.decodeAudioData(await file.arrayBuffer());
+      return buffer.duration > 0 ? buffer.duration : null;
+    } catch {
+      return null;
+    } finally {
+      audioContext.close();
+    }
+  }
+}
+
+export const audioImporter = new AudioImporter();
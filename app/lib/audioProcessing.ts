@@ -0,0 +1,301 @@
+export interface ProcessingSettings {
+  // Browser-level processing, applied through getUserMedia constraints
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  // Web Audio chain
+  inputGainDb: number;
+  highPassEnabled: boolean;
+  highPassFrequency: number;
+  compressorEnabled: boolean;
+  compressorThreshold: number;
+  compressorRatio: number;
+  limiterEnabled: boolean;
+  noiseGateEnabled: boolean;
+  noiseGateThresholdDb: number;
+}
+
+export interface ProcessingPreset {
+  name: string;
+  settings: ProcessingSettings;
+  builtIn?: boolean;
+}
+
+export interface ChainFormat {
+  sampleRate?: number;
+  channelCount?: number;
+}
+
+export const DEFAULT_PROCESSING_SETTINGS: ProcessingSettings = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  inputGainDb: 0,
+  highPassEnabled: false,
+  highPassFrequency: 80,
+  compressorEnabled: false,
+  compressorThreshold: -24,
+  compressorRatio: 4,
+  limiterEnabled: false,
+  noiseGateEnabled: false,
+  noiseGateThresholdDb: -55,
+};
+
+export const BUILT_IN_PRESETS: ProcessingPreset[] = [
+  { name: 'Browser default', settings: DEFAULT_PROCESSING_SETTINGS, builtIn: true },
+  {
+    name: 'Raw',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_PROCESSING_SETTINGS,
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+    },
+  },
+  {
+    name: 'Voice',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_PROCESSING_SETTINGS,
+      autoGainControl: false,
+      highPassEnabled: true,
+      compressorEnabled: true,
+      limiterEnabled: true,
+      noiseGateEnabled: true,
+    },
+  },
+];
+
+const PRESETS_KEY = 'audioRecorder.processingPresets';
+const ACTIVE_SETTINGS_KEY = 'audioRecorder.processingSettings';
+const GATE_INTERVAL_MS = 20;
+const GATE_ATTACK_SECONDS = 0.005;
+const GATE_RELEASE_SECONDS = 0.15;
+const GATE_HOLD_MS = 200;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const loadProcessingSettings = (): ProcessingSettings => ({
+  ...DEFAULT_PROCESSING_SETTINGS,
+  ...readJson<Partial<ProcessingSettings>>(ACTIVE_SETTINGS_KEY, {}),
+});
+
+export const saveProcessingSettings = (settings: ProcessingSettings): void => {
+  localStorage.setItem(ACTIVE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadPresets = (): ProcessingPreset[] => [
+  ...BUILT_IN_PRESETS,
+  ...readJson<ProcessingPreset[]>(PRESETS_KEY, []),
+];
+
+export const savePreset = (preset: ProcessingPreset): ProcessingPreset[] => {
+  const custom = readJson<ProcessingPreset[]>(PRESETS_KEY, []).filter(p => p.name !== preset.name);
+  localStorage.setItem(PRESETS_KEY, JSON.stringify([...custom, { name: preset.name, settings: preset.settings }]));
+  return loadPresets();
+};
+
+export const deletePreset = (name: string): ProcessingPreset[] => {
+  const custom = readJson<ProcessingPreset[]>(PRESETS_KEY, []).filter(p => p.name !== name);
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(custom));
+  return loadPresets();
+};
+
+export const getTrackConstraints = (deviceId: string, settings: ProcessingSettings): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl,
+});
+
+const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+// Routes a microphone stream through gain, high-pass, compressor, limiter and
+// noise gate, and exposes the result as a MediaStream for MediaRecorder.
+// Chains for several inputs can share one AudioContext, so they run on one clock.
+export class ProcessingChain {
+  readonly outputStream: MediaStream;
+  // The processed signal inside the context, for wiring into other nodes there
+  readonly output: GainNode;
+
+  private audioContext: AudioContext;
+  private ownsContext: boolean;
+  private source: MediaStreamAudioSourceNode;
+  private inputGain: GainNode;
+  private highPass: BiquadFilterNode;
+  private compressor: DynamicsCompressorNode;
+  private limiter: DynamicsCompressorNode;
+  private gate: GainNode;
+  private gateAnalyser: AnalyserNode;
+  private gateSamples: Float32Array<ArrayBuffer>;
+  private gateIntervalId: ReturnType<typeof setInterval> | null = null;
+  private gateOpenUntil = 0;
+  private destination: MediaStreamAudioDestinationNode;
+
+  constructor(
+    private inputStream: MediaStream,
+    private settings: ProcessingSettings,
+    format: ChainFormat = {},
+    sharedContext?: AudioContext,
+  ) {
+    this.ownsContext = !sharedContext;
+    this.audioContext = sharedContext
+      ?? new AudioContext(format.sampleRate ? { sampleRate: format.sampleRate } : undefined);
+    try {
+      this.source = this.audioContext.createMediaStreamSource(inputStream);
+    } catch (error) {
+      // A shared context cannot be swapped out under the other chains
+      if (!this.ownsContext) throw error;
+
+      // Firefox cannot resample a microphone into a context at another rate;
+      // callers compare sampleRate with the rate they asked for
+      this.audioContext.close();
+      this.audioContext = new AudioContext();
+      this.source = this.audioContext.createMediaStreamSource(inputStream);
+    }
+    this.inputGain = this.audioContext.createGain();
+    this.highPass = this.audioContext.createBiquadFilter();
+    this.highPass.type = 'highpass';
+    this.compressor = this.audioContext.createDynamicsCompressor();
+    this.limiter = this.audioContext.createDynamicsCompressor();
+    this.limiter.threshold.value = -1;
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.05;
+    this.gate = this.audioContext.createGain();
+    this.gateAnalyser = this.audioContext.createAnalyser();
+    this.gateAnalyser.fftSize = 1024;
+    this.gateSamples = new Float32Array(this.gateAnalyser.fftSize);
+    this.destination = this.audioContext.createMediaStreamDestination();
+    if (format.channelCount) {
+      this.destination.channelCount = format.channelCount;
+      this.destination.channelCountMode = 'explicit';
+    }
+    this.outputStream = this.destination.stream;
+
+    // Sits after the gate and is never rewired, so whatever listens to it stays connected
+    this.output = this.audioContext.createGain();
+    this.output.connect(this.destination);
+
+    this.applySettings();
+  }
+
+  get context(): AudioContext {
+    return this.audioContext;
+  }
+
+  get sampleRate(): number {
+    return this.audioContext.sampleRate;
+  }
+
+  update(settings: ProcessingSettings): void {
+    const constraintsChanged =
+      settings.echoCancellation !== this.settings.echoCancellation ||
+      settings.noiseSuppression !== this.settings.noiseSuppression ||
+      settings.autoGainControl !== this.settings.autoGainControl;
+
+    this.settings = settings;
+    this.applySettings();
+
+    if (constraintsChanged) {
+      this.inputStream.getAudioTracks().forEach(track => {
+        track.applyConstraints(getTrackConstraints('', settings)).catch(err => {
+          console.error('Error applying track constraints:', err);
+        });
+      });
+    }
+  }
+
+  // Swaps the microphone feeding the chain. The output stream stays the same,
+  // so a MediaRecorder attached to it keeps recording through the switch.
+  replaceInput(stream: MediaStream): void {
+    this.source.disconnect();
+    this.source = this.audioContext.createMediaStreamSource(stream);
+    this.inputStream = stream;
+    this.applySettings();
+  }
+
+  dispose(): void {
+    this.stopGate();
+    this.source.disconnect();
+    this.output.disconnect();
+    if (this.ownsContext) this.audioContext.close();
+  }
+
+  private applySettings(): void {
+    const { settings } = this;
+
+    this.inputGain.gain.value = dbToGain(settings.inputGainDb);
+    this.highPass.frequency.value = settings.highPassFrequency;
+    this.compressor.threshold.value = settings.compressorThreshold;
+    this.compressor.ratio.value = settings.compressorRatio;
+
+    // Rewire so disabled stages are skipped entirely rather than set to neutral values
+    const stages: AudioNode[] = [this.source, this.inputGain];
+    if (settings.highPassEnabled) stages.push(this.highPass);
+    if (settings.compressorEnabled) stages.push(this.compressor);
+    if (settings.limiterEnabled) stages.push(this.limiter);
+    stages.push(this.gate);
+
+    [this.source, this.inputGain, this.highPass, this.compressor, this.limiter, this.gate]
+      .forEach(node => node.disconnect());
+
+    for (let i = 0; i < stages.length - 1; i++) {
+      stages[i].connect(stages[i + 1]);
+    }
+    this.gate.connect(this.output);
+
+    // The gate listens to the signal just before it, so it keys off the processed level
+    stages[stages.length - 2].connect(this.gateAnalyser);
+
+    if (settings.noiseGateEnabled) {
+      this.startGate();
+    } else {
+      this.stopGate();
+      this.gate.gain.setTargetAtTime(1, this.audioContext.currentTime, GATE_ATTACK_SECONDS);
+    }
+  }
+
+  private startGate(): void {
+    if (this.gateIntervalId) return;
+
+    this.gateIntervalId = setInterval(() => {
+      this.gateAnalyser.getFloatTimeDomainData(this.gateSamples);
+
+      let sumSquares = 0;
+      for (let i = 0; i < this.gateSamples.length; i++) {
+        sumSquares += this.gateSamples[i] * this.gateSamples[i];
+      }
+      const rms = Math.sqrt(sumSquares / this.gateSamples.length);
+      const levelDb = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+      const now = performance.now();
+
+      if (levelDb >= this.settings.noiseGateThresholdDb) {
+        this.gateOpenUntil = now + GATE_HOLD_MS;
+      }
+
+      const isOpen = now < this.gateOpenUntil;
+      this.gate.gain.setTargetAtTime(
+        isOpen ? 1 : 0,
+        this.audioContext.currentTime,
+        isOpen ? GATE_ATTACK_SECONDS : GATE_RELEASE_SECONDS,
+      );
+    }, GATE_INTERVAL_MS);
+  }
+
+  private stopGate(): void {
+    if (this.gateIntervalId) {
+      clearInterval(this.gateIntervalId);
+      this.gateIntervalId = null;
+    }
+  }
+}
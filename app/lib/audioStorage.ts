@@ -1,90 +1,330 @@
-import { AudioRecording } from '../types/audio';
+import {
+  AudioRecording,
+  RecordingChunk,
+  RecordingMetadata,
+  RecordingQuery,
+  RecordingSession,
+  RecordingSize,
+  RecordingSyncState,
+  RecordingsPage,
+  RetentionRule,
+  RecordingsPageCursor,
+  WaveformData,
+} from '../types/audio';
+import { isExpired } from './retention';
+import { IndexedDBRecordingStore } from './storage/indexedDBStore';
+import { MemoryRecordingStore } from './storage/memoryStore';
+import { OPFSRecordingStore } from './storage/opfsStore';
+import { RecordingStore, StorageBackendKind } from './storage/recordingStore';
 
-const DB_NAME = 'AudioRecorderDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'recordings';
+export type { RecordingStore, StorageBackendKind } from './storage/recordingStore';
+export { toRecordingMetadata } from './storage/recordingStore';
 
+const BACKEND_KEY = 'audioRecorder.storageBackend';
+
+// Set when the preferred backend failed to open and another one is in use
+export interface StorageFallback {
+  preferred: StorageBackendKind;
+  active: StorageBackendKind;
+}
+
+export class StorageUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageUnavailableError';
+  }
+}
+
+export const STORAGE_BACKEND_LABELS: { [kind in StorageBackendKind]: string } = {
+  indexeddb: 'IndexedDB',
+  opfs: 'Origin Private File System',
+  memory: 'In memory (cleared on reload)',
+};
+
+const isBackendSupported = (kind: StorageBackendKind): boolean => {
+  switch (kind) {
+    case 'indexeddb': return IndexedDBRecordingStore.isSupported();
+    case 'opfs': return OPFSRecordingStore.isSupported();
+    case 'memory': return true;
+  }
+};
+
+const createStore = (kind: StorageBackendKind): RecordingStore => {
+  switch (kind) {
+    case 'indexeddb': return new IndexedDBRecordingStore();
+    case 'opfs': return new OPFSRecordingStore();
+    case 'memory': return new MemoryRecordingStore();
+  }
+};
+
+export const loadPreferredBackend = (): StorageBackendKind => {
+  try {
+    const stored = localStorage.getItem(BACKEND_KEY);
+    return stored && stored in STORAGE_BACKEND_LABELS ? stored as StorageBackendKind : 'indexeddb';
+  } catch {
+    return 'indexeddb';
+  }
+};
+
+const savePreferredBackend = (kind: StorageBackendKind): void => {
+  try {
+    localStorage.setItem(BACKEND_KEY, kind);
+  } catch (error) {
+    console.error('Failed to save storage backend:', error);
+  }
+};
+
+// Front door for recording storage. Delegates to whichever backend opened at
+// startup and layers retention and session recovery on top of it.
 class AudioStorage {
-  private db: IDBDatabase | null = null;
+  private store: RecordingStore = new IndexedDBRecordingStore();
+  private fallback: StorageFallback | null = null;
+  private memoryAccepted = false;
 
+  // Opens the preferred backend, falling back to IndexedDB and then memory
+  // when it is unsupported or fails to open (e.g. in private browsing).
+  // The preference is kept, so the next start tries the preferred one again.
   async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+    const preferred = loadPreferredBackend();
+    const candidates = Array.from(new Set<StorageBackendKind>([preferred, 'indexeddb', 'memory']))
+      .filter(isBackendSupported);
+
+    for (const kind of candidates) {
+      const store = createStore(kind);
+      try {
+        await store.init();
+        this.store = store;
+        this.fallback = kind === preferred ? null : { preferred, active: kind };
+        return;
+      } catch (error) {
+        console.error(`Failed to open ${kind} storage:`, error);
+      }
+    }
+  }
+
+  getBackend(): StorageBackendKind {
+    return this.store.kind;
+  }
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        this.db = request.result;
-        resolve();
-      };
+  getFallback(): StorageFallback | null {
+    return this.fallback;
+  }
+
+  // Recordings only go into a fallback memory store once the user has agreed
+  // they will be lost on reload
+  acceptMemoryStorage(): void {
+    this.memoryAccepted = true;
+  }
+
+  isWritable(): boolean {
+    return !this.fallback || this.store.kind !== 'memory' || this.memoryAccepted;
+  }
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-          store.createIndex('createdAt', 'createdAt', { unique: false });
-        }
-      };
-    });
+  private assertWritable(): void {
+    if (!this.isWritable()) {
+      throw new StorageUnavailableError(
+        `${STORAGE_BACKEND_LABELS[this.fallback!.preferred]} could not be opened, so recordings cannot be kept`
+      );
+    }
+  }
+
+  // Memory is never offered as a target: moving there would empty the
+  // persistent store and lose the whole library on the next reload
+  getMigrationTargets(): StorageBackendKind[] {
+    return (Object.keys(STORAGE_BACKEND_LABELS) as StorageBackendKind[])
+      .filter(kind => isBackendSupported(kind) && (kind !== 'memory' || kind === this.store.kind));
+  }
+
+  // Copies everything into the target backend, then empties the current one.
+  // The target is not cleared first, so data left there is merged rather than lost.
+  async migrateTo(kind: StorageBackendKind, onProgress?: (progress: number) => void): Promise<void> {
+    if (kind === this.store.kind) return;
+    if (kind === 'memory') {
+      throw new Error('Recordings cannot be moved to in-memory storage');
+    }
+
+    const source = this.store;
+    const target = createStore(kind);
+    await target.init();
+
+    const recordings = await source.getRecordings();
+    for (let i = 0; i < recordings.length; i++) {
+      const metadata = recordings[i];
+      const blob = await source.getAudioBlob(metadata.id);
+      if (blob) {
+        await target.saveRecording({ ...metadata, blob });
+      } else {
+        await target.updateRecording(metadata);
+      }
+
+      for (const track of metadata.tracks || []) {
+        const trackBlob = await source.getTrackAudio(metadata.id, track.id);
+        if (trackBlob) await target.saveTrackAudio(metadata.id, track.id, trackBlob);
+      }
+
+      const waveform = await source.getWaveform(metadata.id);
+      if (waveform) await target.saveWaveform(waveform);
+      onProgress?.((i + 1) / recordings.length);
+    }
+
+    for (const state of await source.getSyncStates()) {
+      await target.saveSyncState(state);
+    }
+
+    for (const session of await source.getUnfinishedSessions()) {
+      await target.startSession(session);
+      for (const chunk of await source.getSessionChunks(session.id)) {
+        await target.appendChunk(chunk);
+      }
+    }
+
+    this.store = target;
+    this.fallback = null;
+    savePreferredBackend(kind);
+    await source.clear();
+    source.close();
   }
 
   async saveRecording(recording: AudioRecording): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+    this.assertWritable();
+    return this.store.saveRecording(recording);
+  }
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(recording);
+  updateRecording(metadata: RecordingMetadata): Promise<void> {
+    return this.store.updateRecording(metadata);
+  }
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
-    });
+  getRecordingsPage(limit: number, after?: RecordingsPageCursor, query?: RecordingQuery): Promise<RecordingsPage> {
+    return this.store.getRecordingsPage(limit, after, query);
   }
 
-  async getRecordings(): Promise<AudioRecording[]> {
-    if (!this.db) throw new Error('Database not initialized');
+  getRecordings(): Promise<RecordingMetadata[]> {
+    return this.store.getRecordings();
+  }
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const index = store.index('createdAt');
-      const request = index.getAll();
+  countRecordings(): Promise<number> {
+    return this.store.countRecordings();
+  }
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        // Sort by newest first
-        const recordings = request.result.sort((a, b) =>
-          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
-        resolve(recordings);
-      };
-    });
+  getAllTags(): Promise<string[]> {
+    return this.store.getAllTags();
   }
 
-  async deleteRecording(id: string): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+  deleteRecording(id: string): Promise<void> {
+    return this.store.deleteRecording(id);
+  }
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(id);
+  getRecordingMetadata(id: string): Promise<RecordingMetadata | null> {
+    return this.store.getRecordingMetadata(id);
+  }
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
-    });
+  getAudioBlob(id: string): Promise<Blob | null> {
+    return this.store.getAudioBlob(id);
   }
 
   async getRecording(id: string): Promise<AudioRecording | null> {
-    if (!this.db) throw new Error('Database not initialized');
+    const [metadata, blob] = await Promise.all([
+      this.getRecordingMetadata(id),
+      this.getAudioBlob(id),
+    ]);
+    return metadata && blob ? { ...metadata, blob } : null;
+  }
+
+  getRecordingSizes(): Promise<RecordingSize[]> {
+    return this.store.getRecordingSizes();
+  }
+
+  // Deletes every recording matched by an enabled rule and returns the removed ids
+  async enforceRetention(rules: RetentionRule[], now: Date = new Date()): Promise<string[]> {
+    const activeRules = rules.filter(rule => rule.enabled);
+    if (activeRules.length === 0) return [];
+
+    const recordings = await this.getRecordings();
+    const expired = recordings.filter(recording =>
+      activeRules.some(rule => isExpired(recording, rule, now))
+    );
+
+    for (const recording of expired) {
+      await this.deleteRecording(recording.id);
+    }
+    return expired.map(recording => recording.id);
+  }
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.get(id);
+  getVersions(originalId: string): Promise<RecordingMetadata[]> {
+    return this.store.getVersions(originalId);
+  }
+
+  saveTrackAudio(recordingId: string, trackId: string, blob: Blob): Promise<void> {
+    return this.store.saveTrackAudio(recordingId, trackId, blob);
+  }
+
+  getTrackAudio(recordingId: string, trackId: string): Promise<Blob | null> {
+    return this.store.getTrackAudio(recordingId, trackId);
+  }
+
+  saveWaveform(waveform: WaveformData): Promise<void> {
+    return this.store.saveWaveform(waveform);
+  }
+
+  getWaveform(recordingId: string): Promise<WaveformData | null> {
+    return this.store.getWaveform(recordingId);
+  }
+
+  async startSession(session: RecordingSession): Promise<void> {
+    this.assertWritable();
+    return this.store.startSession(session);
+  }
+
+  appendChunk(chunk: RecordingChunk): Promise<void> {
+    return this.store.appendChunk(chunk);
+  }
+
+  getUnfinishedSessions(): Promise<RecordingSession[]> {
+    return this.store.getUnfinishedSessions();
+  }
+
+  getSessionChunks(sessionId: string): Promise<RecordingChunk[]> {
+    return this.store.getSessionChunks(sessionId);
+  }
+
+  // Removes a session and its chunks, once saved normally or when discarded
+  finishSession(sessionId: string): Promise<void> {
+    return this.store.finishSession(sessionId);
+  }
+
+  async recoverSession(session: RecordingSession): Promise<AudioRecording | null> {
+    const chunks = await this.getSessionChunks(session.id);
+    if (chunks.length === 0) {
+      await this.finishSession(session.id);
+      return null;
+    }
+
+    const recording: AudioRecording = {
+      id: `recording_${new Date(session.startedAt).getTime()}`,
+      name: `Recovered recording ${new Date(session.startedAt).toLocaleString()}`,
+      blob: new Blob(chunks.map(chunk => chunk.blob), { type: session.mimeType }),
+      duration: chunks[chunks.length - 1].recordingTime,
+      createdAt: new Date(session.startedAt),
+      mimeType: session.mimeType,
+      source: 'recorded',
+    };
+
+    await this.saveRecording(recording);
+    await this.finishSession(session.id);
+    return recording;
+  }
+
+  getSyncStates(): Promise<RecordingSyncState[]> {
+    return this.store.getSyncStates();
+  }
+
+  saveSyncState(state: RecordingSyncState): Promise<void> {
+    return this.store.saveSyncState(state);
+  }
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result || null);
-    });
+  deleteSyncState(recordingId: string): Promise<void> {
+    return this.store.deleteSyncState(recordingId);
   }
 }
 
-export const audioStorage = new AudioStorage();
\ No newline at end of file
+export const audioStorage = new AudioStorage();
@@ -0,0 +1,238 @@
+import { Unzipped, unzip, zip } from 'fflate';
+import { AudioRecording, RecordingMetadata } from '../types/audio';
+import { audioStorage } from './audioStorage';
+import { buildCueSheet, getCueFilename } from './markers';
+
+export type ConflictStrategy = 'skip' | 'overwrite' | 'keep-both';
+
+export interface BackupManifestEntry extends Omit<RecordingMetadata, 'createdAt'> {
+  createdAt: string;
+  file: string;
+  // Audio of each track of a multitrack recording, by track id
+  trackFiles?: { [trackId: string]: string };
+}
+
+export interface BackupManifest {
+  format: typeof MANIFEST_FORMAT;
+  version: number;
+  exportedAt: string;
+  recordings: BackupManifestEntry[];
+}
+
+export interface ParsedBackup {
+  manifest: BackupManifest;
+  files: Unzipped;
+  conflictIds: string[];
+}
+
+export interface ImportResult {
+  added: number;
+  overwritten: number;
+  skipped: number;
+}
+
+export class BackupValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupValidationError';
+  }
+}
+
+const MANIFEST_FORMAT = 'audio-recorder-library';
+const MANIFEST_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+
+const EXTENSIONS: { [mimeType: string]: string } = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/aac': 'aac',
+  'audio/flac': 'flac',
+};
+
+export const getFileExtension = (mimeType: string): string =>
+  EXTENSIONS[mimeType.split(';')[0].trim()] || 'bin';
+
+const zipAsync = (files: { [path: string]: Uint8Array | [Uint8Array, { level: 0 }] }): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    zip(files, (err, data) => (err ? reject(err) : resolve(data)));
+  });
+
+const unzipAsync = (data: Uint8Array): Promise<Unzipped> =>
+  new Promise((resolve, reject) => {
+    unzip(data, (err, files) => (err ? reject(err) : resolve(files)));
+  });
+
+const validateEntry = (entry: unknown, index: number, files: Unzipped): BackupManifestEntry => {
+  const fail = (reason: string): never => {
+    throw new BackupValidationError(`Recording ${index + 1} in the manifest ${reason}`);
+  };
+
+  if (typeof entry !== 'object' || entry === null) fail('is not an object');
+  const candidate = entry as Partial<BackupManifestEntry>;
+
+  if (typeof candidate.id !== 'string' || !candidate.id) fail('has no id');
+  if (typeof candidate.name !== 'string') fail('has no name');
+  if (typeof candidate.duration !== 'number' || candidate.duration < 0) fail('has an invalid duration');
+  if (typeof candidate.mimeType !== 'string') fail('has no mime type');
+  if (typeof candidate.createdAt !== 'string' || Number.isNaN(Date.parse(candidate.createdAt))) {
+    fail('has an invalid creation date');
+  }
+  if (typeof candidate.file !== 'string' || !files[candidate.file]) {
+    fail(`references missing audio file "${candidate.file}"`);
+  }
+  if (candidate.tags !== undefined && !Array.isArray(candidate.tags)) fail('has invalid tags');
+  if (candidate.markers !== undefined && !Array.isArray(candidate.markers)) fail('has invalid markers');
+  if (candidate.tracks !== undefined && !Array.isArray(candidate.tracks)) fail('has invalid tracks');
+  Object.values(candidate.trackFiles || {}).forEach((trackFile) => {
+    if (!files[trackFile]) fail(`references missing track file "${trackFile}"`);
+  });
+
+  return candidate as BackupManifestEntry;
+};
+
+export class LibraryBackup {
+  async exportLibrary(onProgress?: (progress: number) => void): Promise<Blob> {
+    const recordings = await audioStorage.getRecordings();
+    const files: { [path: string]: Uint8Array | [Uint8Array, { level: 0 }] } = {};
+    const entries: BackupManifestEntry[] = [];
+
+    for (let i = 0; i < recordings.length; i++) {
+      const recording = recordings[i];
+      const blob = await audioStorage.getAudioBlob(recording.id);
+      if (!blob) continue;
+
+      const file = `audio/${recording.id}.${getFileExtension(recording.mimeType)}`;
+      // Audio is already compressed, so store it without deflating again
+      files[file] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+      if (recording.markers && recording.markers.length > 0) {
+        files[getCueFilename(file)] = new TextEncoder().encode(buildCueSheet(recording, file.split('/').pop()!));
+      }
+
+      const trackFiles: { [trackId: string]: string } = {};
+      for (const track of recording.tracks || []) {
+        const trackBlob = await audioStorage.getTrackAudio(recording.id, track.id);
+        if (!trackBlob) continue;
+        trackFiles[track.id] = `audio/${recording.id}/${track.id}.${getFileExtension(track.mimeType)}`;
+        files[trackFiles[track.id]] = [new Uint8Array(await trackBlob.arrayBuffer()), { level: 0 }];
+      }
+
+      entries.push({
+        ...recording,
+        createdAt: new Date(recording.createdAt).toISOString(),
+        file,
+        trackFiles: Object.keys(trackFiles).length > 0 ? trackFiles : undefined,
+      });
+      onProgress?.((i + 1) / recordings.length);
+    }
+
+    const manifest: BackupManifest = {
+      format: MANIFEST_FORMAT,
+      version: MANIFEST_VERSION,
+      exportedAt: new Date().toISOString(),
+      recordings: entries,
+    };
+    files[MANIFEST_FILE] = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+
+    const archive = await zipAsync(files);
+    return new Blob([archive as BlobPart], { type: 'application/zip' });
+  }
+
+  getExportFilename(): string {
+    return `audio-library-${new Date().toISOString().slice(0, 10)}.zip`;
+  }
+
+  async readArchive(file: Blob): Promise<ParsedBackup> {
+    let files: Unzipped;
+    try {
+      files = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+    } catch {
+      throw new BackupValidationError('The file is not a valid zip archive');
+    }
+
+    if (!files[MANIFEST_FILE]) {
+      throw new BackupValidationError('The archive has no manifest.json');
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(new TextDecoder().decode(files[MANIFEST_FILE]));
+    } catch {
+      throw new BackupValidationError('manifest.json is not valid JSON');
+    }
+
+    const manifest = raw as Partial<BackupManifest>;
+    if (manifest.format !== MANIFEST_FORMAT) {
+      throw new BackupValidationError('The archive is not an audio recorder library export');
+    }
+    if (typeof manifest.version !== 'number' || manifest.version > MANIFEST_VERSION) {
+      throw new BackupValidationError('The archive was made by a newer version of the app');
+    }
+    if (!Array.isArray(manifest.recordings)) {
+      throw new BackupValidationError('The manifest has no recordings list');
+    }
+
+    const recordings = manifest.recordings.map((entry, i) => validateEntry(entry, i, files));
+    const existing = await Promise.all(recordings.map(entry => audioStorage.getRecordingMetadata(entry.id)));
+
+    return {
+      manifest: { ...(manifest as BackupManifest), recordings },
+      files,
+      conflictIds: recordings.filter((_, i) => existing[i] !== null).map(entry => entry.id),
+    };
+  }
+
+  async importArchive(backup: ParsedBackup, strategy: ConflictStrategy): Promise<ImportResult> {
+    const result: ImportResult = { added: 0, overwritten: 0, skipped: 0 };
+    const conflicts = new Set(backup.conflictIds);
+
+    // With keep-both, conflicting recordings get new ids; versions must follow their original
+    const idMap: { [oldId: string]: string } = {};
+    if (strategy === 'keep-both') {
+      backup.manifest.recordings
+        .filter(entry => conflicts.has(entry.id))
+        .forEach((entry, i) => {
+          idMap[entry.id] = `recording_${Date.now()}_${i}`;
+        });
+    }
+
+    for (const entry of backup.manifest.recordings) {
+      const isConflict = conflicts.has(entry.id);
+      if (isConflict && strategy === 'skip') {
+        result.skipped++;
+        continue;
+      }
+
+      const { file, trackFiles, createdAt, ...metadata } = entry;
+      const recording: AudioRecording = {
+        ...metadata,
+        id: idMap[entry.id] || entry.id,
+        name: idMap[entry.id] ? `${entry.name} (imported)` : entry.name,
+        originalId: entry.originalId ? idMap[entry.originalId] || entry.originalId : undefined,
+        createdAt: new Date(createdAt),
+        blob: new Blob([backup.files[file] as BlobPart], { type: entry.mimeType }),
+      };
+
+      await audioStorage.saveRecording(recording);
+      for (const track of recording.tracks || []) {
+        const trackFile = trackFiles?.[track.id];
+        if (trackFile) {
+          const trackBlob = new Blob([backup.files[trackFile] as BlobPart], { type: track.mimeType });
+          await audioStorage.saveTrackAudio(recording.id, track.id, trackBlob);
+        }
+      }
+      if (isConflict && strategy === 'overwrite') {
+        result.overwritten++;
+      } else {
+        result.added++;
+      }
+    }
+
+    return result;
+  }
+}
+
+export const libraryBackup = new LibraryBackup();
@@ -0,0 +1,71 @@
+import { RecordingMarker, RecordingMetadata, TimeRange } from '../types/audio';
+
+// CD frames, the unit of the INDEX field in cue sheets
+const CUE_FRAMES_PER_SECOND = 75;
+
+export const createMarker = (time: number, label: string = ''): RecordingMarker => ({
+  id: `marker_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  time: Math.max(0, time),
+  label,
+});
+
+export const sortMarkers = (markers: RecordingMarker[]): RecordingMarker[] =>
+  [...markers].sort((a, b) => a.time - b.time);
+
+export const getMarkerLabel = (marker: RecordingMarker, index: number): string =>
+  marker.label.trim() || `Marker ${index + 1}`;
+
+// Moves markers onto the timeline of an edited version, dropping any inside removed audio
+export const remapMarkers = (markers: RecordingMarker[], keptRanges: TimeRange[]): RecordingMarker[] => {
+  const remapped: RecordingMarker[] = [];
+  let offset = 0;
+
+  for (const range of keptRanges) {
+    markers
+      .filter(marker => marker.time >= range.start && marker.time < range.end)
+      .forEach(marker => remapped.push({ ...marker, time: offset + marker.time - range.start }));
+    offset += range.end - range.start;
+  }
+
+  return sortMarkers(remapped);
+};
+
+const formatCueTime = (seconds: number): string => {
+  const totalFrames = Math.round(seconds * CUE_FRAMES_PER_SECOND);
+  const frames = totalFrames % CUE_FRAMES_PER_SECOND;
+  const totalSeconds = Math.floor(totalFrames / CUE_FRAMES_PER_SECOND);
+  const secs = totalSeconds % 60;
+  const mins = Math.floor(totalSeconds / 60);
+  return [mins, secs, frames].map(n => n.toString().padStart(2, '0')).join(':');
+};
+
+const quoteCue = (value: string): string => `"${value.replace(/"/g, "'")}"`;
+
+// Builds a cue sheet with one track per marker; track 1 always starts at 00:00:00
+export const buildCueSheet = (recording: RecordingMetadata, audioFilename: string): string => {
+  const markers = sortMarkers(recording.markers || []);
+  const extension = audioFilename.split('.').pop()?.toLowerCase();
+  const fileType = extension === 'mp3' ? 'MP3' : extension === 'wav' ? 'WAVE' : 'BINARY';
+
+  const tracks = markers[0]?.time === 0
+    ? markers.map((marker, i) => ({ title: getMarkerLabel(marker, i), time: marker.time }))
+    : [
+      { title: recording.name, time: 0 },
+      ...markers.map((marker, i) => ({ title: getMarkerLabel(marker, i), time: marker.time })),
+    ];
+
+  const lines = [
+    `TITLE ${quoteCue(recording.name)}`,
+    `FILE ${quoteCue(audioFilename)} ${fileType}`,
+    ...tracks.flatMap((track, i) => [
+      `  TRACK ${(i + 1).toString().padStart(2, '0')} AUDIO`,
+      `    TITLE ${quoteCue(track.title)}`,
+      `    INDEX 01 ${formatCueTime(track.time)}`,
+    ]),
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+};
+
+export const getCueFilename = (audioFilename: string): string =>
+  audioFilename.replace(/\.[^.]+$/, '') + '.cue';
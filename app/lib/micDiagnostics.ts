@@ -0,0 +1,182 @@
+export interface MicDiagnostics {
+  deviceId: string;
+  testedAt: Date;
+  rmsDb: number;
+  peakDb: number;
+  noiseFloorDb: number;
+  // Fraction of samples at or beyond full scale
+  clippedRatio: number;
+  // Mean sample value; anything far from zero points at a faulty interface
+  dcOffset: number;
+  // As reported by the track, which may differ from what was requested
+  sampleRate: number | null;
+  channelCount: number | null;
+  isSilent: boolean;
+  // What the mic picked up, for the playback check
+  recording: Blob | null;
+}
+
+export interface DiagnosticsProgress {
+  elapsed: number;
+  levelDb: number;
+}
+
+export interface WindowStats {
+  sumSquares: number;
+  sum: number;
+  peak: number;
+  clipped: number;
+  length: number;
+}
+
+export const DIAGNOSTIC_DURATION_MS = 3000;
+export const MIN_DB = -100;
+const WINDOW_INTERVAL_MS = 50;
+const CLIP_THRESHOLD = 0.99;
+// A working mic picks up some room noise; a muted or dead one reports (near) digital zero
+const SILENCE_PEAK_DB = -70;
+const DC_OFFSET_WARNING = 0.01;
+const CLIPPING_WARNING_RATIO = 0.001;
+// Noise floor is the level of the quietest windows, ignoring the very quietest outliers
+const NOISE_FLOOR_PERCENTILE = 0.1;
+
+export const toDb = (value: number): number => (value > 0 ? Math.max(MIN_DB, 20 * Math.log10(value)) : MIN_DB);
+
+export const measureWindow = (samples: Float32Array): WindowStats => {
+  const stats: WindowStats = { sumSquares: 0, sum: 0, peak: 0, clipped: 0, length: samples.length };
+  for (let i = 0; i < samples.length; i++) {
+    const value = samples[i];
+    const magnitude = Math.abs(value);
+    stats.sumSquares += value * value;
+    stats.sum += value;
+    if (magnitude > stats.peak) stats.peak = magnitude;
+    if (magnitude >= CLIP_THRESHOLD) stats.clipped++;
+  }
+  return stats;
+};
+
+export const summarizeWindows = (
+  windows: WindowStats[],
+): Pick<MicDiagnostics, 'rmsDb' | 'peakDb' | 'noiseFloorDb' | 'clippedRatio' | 'dcOffset' | 'isSilent'> => {
+  const total = windows.reduce((count, stats) => count + stats.length, 0);
+  if (total === 0) {
+    return { rmsDb: MIN_DB, peakDb: MIN_DB, noiseFloorDb: MIN_DB, clippedRatio: 0, dcOffset: 0, isSilent: true };
+  }
+
+  const sumSquares = windows.reduce((sum, stats) => sum + stats.sumSquares, 0);
+  const peak = Math.max(...windows.map(stats => stats.peak));
+  const windowLevels = windows
+    .map(stats => toDb(Math.sqrt(stats.sumSquares / stats.length)))
+    .sort((a, b) => a - b);
+
+  const peakDb = toDb(peak);
+  return {
+    rmsDb: toDb(Math.sqrt(sumSquares / total)),
+    peakDb,
+    noiseFloorDb: windowLevels[Math.floor(windowLevels.length * NOISE_FLOOR_PERCENTILE)],
+    clippedRatio: windows.reduce((count, stats) => count + stats.clipped, 0) / total,
+    dcOffset: windows.reduce((sum, stats) => sum + stats.sum, 0) / total,
+    isSilent: peakDb < SILENCE_PEAK_DB,
+  };
+};
+
+// Human-readable problems found by a run, empty when the mic looks healthy
+export const getDiagnosticWarnings = (result: MicDiagnostics): string[] => {
+  const warnings: string[] = [];
+  if (result.isSilent) {
+    warnings.push('No signal: the microphone is muted, disconnected or broken.');
+    return warnings;
+  }
+  if (result.clippedRatio > CLIPPING_WARNING_RATIO) warnings.push('The input is clipping. Lower the gain or move back.');
+  if (Math.abs(result.dcOffset) > DC_OFFSET_WARNING) warnings.push('Large DC offset; the interface may be faulty.');
+  if (result.noiseFloorDb > -40) warnings.push('High background noise.');
+  if (result.peakDb < -40) warnings.push('Very quiet. Speak closer to the microphone or raise its gain.');
+  return warnings;
+};
+
+export class MicDiagnosticsRunner {
+  private results = new Map<string, MicDiagnostics>();
+
+  getResult(deviceId: string): MicDiagnostics | null {
+    return this.results.get(deviceId) || null;
+  }
+
+  // Records the raw input (browser processing off) for a few seconds and measures it
+  async run(
+    deviceId: string,
+    onProgress?: (progress: DiagnosticsProgress) => void,
+    durationMs: number = DIAGNOSTIC_DURATION_MS,
+  ): Promise<MicDiagnostics> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+      },
+    });
+
+    const inputTrack = stream.getAudioTracks()[0];
+    const trackSettings = inputTrack?.getSettings() || {};
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(stream);
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const recorded = new Promise<Blob | null>((resolve) => {
+      recorder.onstop = () => resolve(chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType }) : null);
+    });
+
+    const samples = new Float32Array(analyser.fftSize);
+    const windows: WindowStats[] = [];
+    const startedAt = performance.now();
+
+    try {
+      recorder.start();
+      await new Promise<void>((resolve) => {
+        const intervalId = setInterval(() => {
+          analyser.getFloatTimeDomainData(samples);
+          const stats = measureWindow(samples);
+          windows.push(stats);
+
+          const elapsed = performance.now() - startedAt;
+          onProgress?.({ elapsed, levelDb: toDb(Math.sqrt(stats.sumSquares / stats.length)) });
+          if (elapsed >= durationMs) {
+            clearInterval(intervalId);
+            resolve();
+          }
+        }, WINDOW_INTERVAL_MS);
+      });
+    } finally {
+      if (recorder.state !== 'inactive') recorder.stop();
+      stream.getTracks().forEach(track => track.stop());
+      source.disconnect();
+      audioContext.close();
+    }
+
+    const recording = await recorded;
+
+    const summary = summarizeWindows(windows);
+    const result: MicDiagnostics = {
+      deviceId,
+      testedAt: new Date(),
+      ...summary,
+      // A track the OS has muted delivers silence even if the samples say otherwise
+      isSilent: summary.isSilent || !!inputTrack?.muted,
+      sampleRate: trackSettings.sampleRate ?? null,
+      channelCount: trackSettings.channelCount ?? null,
+      recording,
+    };
+
+    this.results.set(deviceId, result);
+    return result;
+  }
+}
+
+export const micDiagnostics = new MicDiagnosticsRunner();
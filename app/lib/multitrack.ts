@@ -0,0 +1,125 @@
+import { RecordingMetadata, RecordingTrack } from '../types/audio';
+import { audioStorage } from './audioStorage';
+import { audioExporter } from './audioExport';
+
+export type TrackExportMode = 'mix' | 'multichannel';
+
+export const isTrackAudible = (trackId: string, mutedTracks: string[], soloTracks: string[]): boolean =>
+  soloTracks.length > 0 ? soloTracks.includes(trackId) : !mutedTracks.includes(trackId);
+
+export const getTrackVolume = (track: RecordingTrack): number => track.volume ?? 1;
+export const getTrackPan = (track: RecordingTrack): number => track.pan ?? 0;
+export const getTrackOffset = (track: RecordingTrack): number => track.offset ?? 0;
+
+// Where the tracks end on the shared timeline, in samples
+const getTimelineLength = (
+  tracks: RecordingTrack[],
+  buffers: (AudioBuffer | null)[],
+  sampleRate: number,
+): number => Math.max(1, ...buffers.map((buffer, i) => buffer
+  ? Math.ceil((getTrackOffset(tracks[i]) + buffer.duration) * sampleRate)
+  : 0));
+
+// Plays a buffer at its track offset; a negative offset skips into the buffer instead
+export const startTrackSource = (source: AudioBufferSourceNode, track: RecordingTrack, when: number = 0): void => {
+  const offset = getTrackOffset(track);
+  source.start(when + Math.max(0, offset), Math.max(0, -offset));
+};
+
+// Joins the outputs of processing chains that share one AudioContext into a
+// mix and one mono stream per input. Nothing is re-clocked on the way, so
+// recorders started together on these streams stay aligned. The context
+// belongs to the caller and is left open.
+export class InputMixer {
+  readonly mixStream: MediaStream;
+  readonly trackStreams: MediaStream[];
+
+  private connections: [AudioNode, AudioNode][] = [];
+
+  constructor(context: AudioContext, inputs: AudioNode[], channelCount?: number) {
+    const mix = context.createMediaStreamDestination();
+    if (channelCount) {
+      mix.channelCount = channelCount;
+      mix.channelCountMode = 'explicit';
+    }
+
+    const tracks = inputs.map((input) => {
+      const track = context.createMediaStreamDestination();
+      track.channelCount = 1;
+      track.channelCountMode = 'explicit';
+      input.connect(track);
+      input.connect(mix);
+      this.connections.push([input, track], [input, mix]);
+      return track;
+    });
+
+    this.trackStreams = tracks.map(track => track.stream);
+    this.mixStream = mix.stream;
+  }
+
+  // Disconnects the streams from the inputs, leaving the chains running
+  dispose(): void {
+    this.connections.forEach(([input, destination]) => input.disconnect(destination));
+    this.connections = [];
+  }
+}
+
+export class MultitrackMixer {
+  // Missing track audio decodes to null so the other tracks still line up by index
+  async decodeTracks(recording: RecordingMetadata, sampleRate: number): Promise<(AudioBuffer | null)[]> {
+    return Promise.all((recording.tracks || []).map(async (track) => {
+      const blob = await audioStorage.getTrackAudio(recording.id, track.id);
+      return blob ? audioExporter.decodeAudio(blob, sampleRate) : null;
+    }));
+  }
+
+  // One mono channel per track, for editing each speaker separately in a DAW.
+  // Offsets are applied so the channels line up; volume and pan are left to the DAW.
+  renderMultichannel(tracks: RecordingTrack[], buffers: (AudioBuffer | null)[], sampleRate: number): AudioBuffer {
+    const length = getTimelineLength(tracks, buffers, sampleRate);
+    const output = new AudioBuffer({ numberOfChannels: Math.max(1, buffers.length), length, sampleRate });
+
+    buffers.forEach((buffer, channel) => {
+      if (!buffer) return;
+      const target = output.getChannelData(channel);
+      const shift = Math.round(getTrackOffset(tracks[channel]) * sampleRate);
+      for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const samples = buffer.getChannelData(c);
+        for (let i = Math.max(0, -shift); i < samples.length && i + shift < length; i++) {
+          target[i + shift] += samples[i] / buffer.numberOfChannels;
+        }
+      }
+    });
+
+    return output;
+  }
+
+  // Sums the tracks into stereo with their volume, pan and offset, leaving out
+  // any that are muted or not soloed
+  async renderMix(
+    tracks: RecordingTrack[],
+    buffers: (AudioBuffer | null)[],
+    sampleRate: number,
+    mutedTracks: string[] = [],
+    soloTracks: string[] = [],
+  ): Promise<AudioBuffer> {
+    const context = new OfflineAudioContext(2, getTimelineLength(tracks, buffers, sampleRate), sampleRate);
+
+    tracks.forEach((track, i) => {
+      const buffer = buffers[i];
+      if (!buffer || !isTrackAudible(track.id, mutedTracks, soloTracks)) return;
+
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source
+        .connect(new GainNode(context, { gain: getTrackVolume(track) }))
+        .connect(new StereoPannerNode(context, { pan: getTrackPan(track) }))
+        .connect(context.destination);
+      startTrackSource(source, track);
+    });
+
+    return context.startRendering();
+  }
+}
+
+export const multitrackMixer = new MultitrackMixer();
@@ -0,0 +1,227 @@
+import { AudioRecording, RecordingMetadata, RecordingTrack } from '../types/audio';
+import { audioStorage } from './audioStorage';
+import { audioExporter } from './audioExport';
+import {
+  getTrackPan,
+  getTrackVolume,
+  isTrackAudible,
+  multitrackMixer,
+  startTrackSource,
+} from './multitrack';
+
+export interface OverdubLayer {
+  track: RecordingTrack;
+  blob: Blob;
+  buffer: AudioBuffer;
+}
+
+const LATENCY_KEY = 'audioRecorder.overdubLatencyMs';
+// Gives the recorder a head start so the first beat of the backing audio is captured
+const PREROLL_SECONDS = 0.25;
+
+// A manual latency in milliseconds, or null to use the measured estimate
+export const loadLatencyOverride = (): number | null => {
+  try {
+    const saved = localStorage.getItem(LATENCY_KEY);
+    const value = saved === null ? NaN : Number(saved);
+    return Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveLatencyOverride = (latencyMs: number | null): void => {
+  try {
+    if (latencyMs === null) {
+      localStorage.removeItem(LATENCY_KEY);
+    } else {
+      localStorage.setItem(LATENCY_KEY, String(latencyMs));
+    }
+  } catch (error) {
+    console.error('Failed to save overdub latency:', error);
+  }
+};
+
+// Plays existing layers to the performer while a new take is recorded. Layers
+// and takes share one AudioContext, so a take can be placed on the timeline
+// from the context clock and the measured round-trip latency.
+export class OverdubSession {
+  private context = new AudioContext({ latencyHint: 'interactive' });
+  private sources: AudioBufferSourceNode[] = [];
+  private recorder: MediaRecorder | null = null;
+  private takeDone: Promise<Blob> | null = null;
+  private takeOffset = 0;
+
+  async decode(blob: Blob): Promise<AudioBuffer> {
+    return this.context.decodeAudioData(await blob.arrayBuffer());
+  }
+
+  // A multitrack recording brings its tracks; anything else becomes a single layer
+  async loadLayers(recording: RecordingMetadata): Promise<OverdubLayer[]> {
+    if (recording.tracks && recording.tracks.length > 0) {
+      const layers: OverdubLayer[] = [];
+      for (const track of recording.tracks) {
+        const blob = await audioStorage.getTrackAudio(recording.id, track.id);
+        if (blob) layers.push({ track, blob, buffer: await this.decode(blob) });
+      }
+      if (layers.length > 0) return layers;
+    }
+
+    const blob = await audioStorage.getAudioBlob(recording.id);
+    if (!blob) throw new Error(`Audio for ${recording.id} not found`);
+    return [{
+      track: { id: 'original', label: recording.name, mimeType: recording.mimeType },
+      blob,
+      buffer: await this.decode(blob),
+    }];
+  }
+
+  // Seconds between scheduling a sample and hearing the performer's response to
+  // it: output to the headphones plus input from the microphone
+  estimateLatency(input: MediaStreamTrack): number {
+    const settings = input.getSettings() as MediaTrackSettings & { latency?: number };
+    return this.context.baseLatency + (this.context.outputLatency || 0) + (settings.latency || 0);
+  }
+
+  async preview(
+    layers: OverdubLayer[],
+    mutedTracks: string[],
+    soloTracks: string[],
+    onEnded: () => void,
+  ): Promise<void> {
+    this.stop();
+    await this.context.resume();
+    this.schedule(layers, mutedTracks, soloTracks, this.context.currentTime + 0.05, onEnded);
+  }
+
+  async startTake(
+    layers: OverdubLayer[],
+    mutedTracks: string[],
+    soloTracks: string[],
+    stream: MediaStream,
+    latency: number,
+  ): Promise<void> {
+    this.stop();
+    await this.context.resume();
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    this.takeDone = new Promise<Blob>((resolve) => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType }));
+    });
+    await new Promise<void>((resolve) => {
+      recorder.onstart = () => resolve();
+      recorder.start();
+    });
+    this.recorder = recorder;
+
+    // The take's first sample was captured at the clock time the recorder started;
+    // the performer heard layer time zero one latency after the preroll
+    const startedAt = this.context.currentTime;
+    const playAt = startedAt + PREROLL_SECONDS;
+    this.takeOffset = startedAt - playAt - latency;
+    this.schedule(layers, mutedTracks, soloTracks, playAt);
+  }
+
+  // Resolves with the take and its timeline offset, or null when nothing was recording
+  async stopTake(): Promise<{ blob: Blob; offset: number } | null> {
+    this.stop();
+    const recorder = this.recorder;
+    const done = this.takeDone;
+    this.recorder = null;
+    this.takeDone = null;
+    if (!recorder || !done) return null;
+
+    if (recorder.state !== 'inactive') recorder.stop();
+    return { blob: await done, offset: this.takeOffset };
+  }
+
+  // Stops whatever is playing, leaving a take recording
+  stop(): void {
+    this.sources.forEach((source) => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Sources that never started throw on stop
+      }
+      source.disconnect();
+    });
+    this.sources = [];
+  }
+
+  dispose(): void {
+    this.stop();
+    if (this.recorder && this.recorder.state !== 'inactive') this.recorder.stop();
+    this.recorder = null;
+    this.context.close();
+  }
+
+  private schedule(
+    layers: OverdubLayer[],
+    mutedTracks: string[],
+    soloTracks: string[],
+    when: number,
+    onEnded?: () => void,
+  ): void {
+    const audible = layers.filter(layer => isTrackAudible(layer.track.id, mutedTracks, soloTracks));
+    let remaining = audible.length;
+
+    this.sources = audible.map(({ track, buffer }) => {
+      const source = this.context.createBufferSource();
+      source.buffer = buffer;
+      source
+        .connect(new GainNode(this.context, { gain: getTrackVolume(track) }))
+        .connect(new StereoPannerNode(this.context, { pan: getTrackPan(track) }))
+        .connect(this.context.destination);
+      source.onended = () => {
+        remaining--;
+        if (remaining === 0) onEnded?.();
+      };
+      startTrackSource(source, track, when);
+      return source;
+    });
+
+    if (audible.length === 0) onEnded?.();
+  }
+}
+
+// Renders the layers into a new multitrack recording; the source recording is left untouched
+export const saveMixdown = async (
+  source: RecordingMetadata,
+  layers: OverdubLayer[],
+  mutedTracks: string[],
+  soloTracks: string[],
+): Promise<AudioRecording> => {
+  const tracks = layers.map(layer => layer.track);
+  const sampleRate = layers[0].buffer.sampleRate;
+  const mix = await multitrackMixer.renderMix(
+    tracks,
+    layers.map(layer => layer.buffer),
+    sampleRate,
+    mutedTracks,
+    soloTracks,
+  );
+
+  const recording: AudioRecording = {
+    id: `recording_${Date.now()}`,
+    name: `${source.name} (overdub)`,
+    blob: await audioExporter.encodeWav(mix),
+    duration: mix.duration,
+    createdAt: new Date(),
+    mimeType: 'audio/wav',
+    tags: source.tags,
+    markers: source.markers,
+    tracks,
+    source: source.source,
+  };
+
+  await audioStorage.saveRecording(recording);
+  for (const layer of layers) {
+    await audioStorage.saveTrackAudio(recording.id, layer.track.id, layer.blob);
+  }
+  return recording;
+};
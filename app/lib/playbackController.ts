@@ -0,0 +1,563 @@
+import { PlaybackState, RecordingMetadata, RecordingTrack, TimeRange } from '../types/audio';
+import { audioStorage } from './audioStorage';
+import { audioEditor } from './audioEditor';
+import { getTrackOffset, getTrackPan, getTrackVolume, isTrackAudible } from './multitrack';
+
+type PlaybackListener = (state: PlaybackState) => void;
+
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 3;
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+export const SKIP_SECONDS = 10;
+
+const PLAYBACK_RATE_KEY = 'audioRecorder.playbackRate';
+const SKIP_SILENCE_KEY = 'audioRecorder.skipSilence';
+const SILENCE_THRESHOLD_DB = -45;
+const SILENCE_MIN_SECONDS = 0.6;
+const SILENCE_WINDOW_SECONDS = 0.05;
+// Keep a little of each silence so words are not clipped at the edges
+const SILENCE_PADDING_SECONDS = 0.15;
+// Track elements further than this from the main element are snapped back into line
+const TRACK_DRIFT_SECONDS = 0.05;
+
+const clampRate = (rate: number): number => Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+
+// Finds stretches quieter than the threshold, measured as RMS over short windows of the first channel
+export const findSilentRanges = (
+  buffer: AudioBuffer,
+  thresholdDb: number = SILENCE_THRESHOLD_DB,
+  minSeconds: number = SILENCE_MIN_SECONDS,
+): TimeRange[] => {
+  const samples = buffer.getChannelData(0);
+  const windowSize = Math.max(1, Math.floor(buffer.sampleRate * SILENCE_WINDOW_SECONDS));
+  const threshold = Math.pow(10, thresholdDb / 20);
+  const ranges: TimeRange[] = [];
+  let silenceStart: number | null = null;
+
+  const closeRange = (end: number) => {
+    if (silenceStart !== null && end - silenceStart >= minSeconds) {
+      const start = silenceStart + SILENCE_PADDING_SECONDS;
+      const paddedEnd = end - SILENCE_PADDING_SECONDS;
+      if (paddedEnd > start) {
+        ranges.push({ start, end: paddedEnd });
+      }
+    }
+    silenceStart = null;
+  };
+
+  for (let offset = 0; offset < samples.length; offset += windowSize) {
+    const end = Math.min(samples.length, offset + windowSize);
+    let sumSquares = 0;
+    for (let i = offset; i < end; i++) {
+      sumSquares += samples[i] * samples[i];
+    }
+    const rms = Math.sqrt(sumSquares / (end - offset));
+    const time = offset / buffer.sampleRate;
+
+    if (rms < threshold) {
+      if (silenceStart === null) silenceStart = time;
+    } else {
+      closeRange(time);
+    }
+  }
+  closeRange(buffer.duration);
+
+  return ranges;
+};
+
+interface TrackPlayer {
+  track: RecordingTrack;
+  audio: HTMLAudioElement;
+  objectUrl: string;
+  source: MediaElementAudioSourceNode;
+  gain: GainNode;
+  panner: StereoPannerNode;
+}
+
+// Owns the single audio element used for playback across the app. Loading a
+// recording revokes the previous object URL, so only one blob URL is ever live.
+// For multitrack recordings the main element plays the mix muted, as the clock,
+// while one element per track follows it, routed through Web Audio for volume
+// and pan, so tracks can be mixed, muted and soloed.
+export class PlaybackController {
+  private audio: HTMLAudioElement | null = null;
+  private objectUrl: string | null = null;
+  private trackPlayers: TrackPlayer[] = [];
+  private trackContext: AudioContext | null = null;
+  private listeners = new Set<PlaybackListener>();
+  private silentRanges: { [recordingId: string]: TimeRange[] } = {};
+  private frameId: number | null = null;
+  private loadRequest = 0;
+  private state: PlaybackState = {
+    recordingId: null,
+    isPlaying: false,
+    isLoading: false,
+    currentTime: 0,
+    duration: 0,
+    playbackRate: 1,
+    loopStart: null,
+    loopEnd: null,
+    skipSilence: false,
+    mutedTracks: [],
+    soloTracks: [],
+  };
+  private settingsLoaded = false;
+
+  subscribe(listener: PlaybackListener): () => void {
+    this.loadSettings();
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): PlaybackState {
+    return this.state;
+  }
+
+  async play(recording: RecordingMetadata): Promise<void> {
+    const audio = await this.load(recording);
+    if (!audio) return;
+    await audio.play();
+  }
+
+  pause(): void {
+    this.audio?.pause();
+  }
+
+  // Toggles whatever is loaded; returns false when nothing is, so callers can pick a recording
+  toggleCurrent(): boolean {
+    if (!this.audio || !this.state.recordingId || this.state.isLoading) return false;
+
+    if (this.audio.paused) {
+      this.audio.play().catch(error => console.error('Error playing audio:', error));
+    } else {
+      this.audio.pause();
+    }
+    return true;
+  }
+
+  async toggle(recording: RecordingMetadata): Promise<void> {
+    if (this.state.recordingId === recording.id && this.state.isPlaying) {
+      this.pause();
+    } else {
+      await this.play(recording);
+    }
+  }
+
+  async seek(recording: RecordingMetadata, time: number): Promise<void> {
+    const audio = await this.load(recording);
+    if (!audio) return;
+
+    audio.currentTime = Math.max(0, Math.min(this.state.duration, time));
+    this.setState({ currentTime: audio.currentTime });
+  }
+
+  skip(seconds: number): void {
+    if (!this.audio || !this.state.recordingId) return;
+
+    this.audio.currentTime = Math.max(0, Math.min(this.state.duration, this.audio.currentTime + seconds));
+    this.setState({ currentTime: this.audio.currentTime });
+    this.updateMediaSessionPlayback();
+  }
+
+  setPlaybackRate(rate: number): void {
+    const playbackRate = clampRate(rate);
+    if (this.audio) {
+      this.audio.playbackRate = playbackRate;
+    }
+    localStorage.setItem(PLAYBACK_RATE_KEY, String(playbackRate));
+    this.setState({ playbackRate });
+    this.updateMediaSessionPlayback();
+  }
+
+  // First call sets A, second sets B; a B before A swaps them
+  setLoopPoint(): void {
+    const time = this.audio?.currentTime ?? 0;
+    const { loopStart, loopEnd } = this.state;
+
+    if (loopStart === null || loopEnd !== null) {
+      this.setState({ loopStart: time, loopEnd: null });
+    } else if (time === loopStart) {
+      return;
+    } else {
+      this.setState({ loopStart: Math.min(loopStart, time), loopEnd: Math.max(loopStart, time) });
+    }
+  }
+
+  clearLoop(): void {
+    this.setState({ loopStart: null, loopEnd: null });
+  }
+
+  async setSkipSilence(enabled: boolean): Promise<void> {
+    localStorage.setItem(SKIP_SILENCE_KEY, String(enabled));
+    this.setState({ skipSilence: enabled });
+
+    if (enabled && this.state.recordingId) {
+      await this.analyzeSilence(this.state.recordingId);
+    }
+  }
+
+  setTrackMuted(trackId: string, muted: boolean): void {
+    const mutedTracks = this.state.mutedTracks.filter(id => id !== trackId);
+    this.setState({ mutedTracks: muted ? [...mutedTracks, trackId] : mutedTracks });
+    this.applyTrackAudibility();
+  }
+
+  setTrackSolo(trackId: string, solo: boolean): void {
+    const soloTracks = this.state.soloTracks.filter(id => id !== trackId);
+    this.setState({ soloTracks: solo ? [...soloTracks, trackId] : soloTracks });
+    this.applyTrackAudibility();
+  }
+
+  // Applies a track's volume, pan and offset to the loaded recording while it plays
+  updateTrack(track: RecordingTrack): void {
+    const player = this.trackPlayers.find(p => p.track.id === track.id);
+    if (!player) return;
+
+    player.track = track;
+    player.panner.pan.value = getTrackPan(track);
+    this.applyTrackAudibility();
+    this.syncTracks(true);
+  }
+
+  // Stops playback and frees the blob URL, e.g. when the recording is deleted or the list unmounts
+  unload(recordingId?: string): void {
+    if (recordingId && recordingId !== this.state.recordingId) return;
+
+    this.loadRequest++;
+    this.stopFrameLoop();
+    if (this.audio) {
+      this.audio.pause();
+      this.audio.removeAttribute('src');
+      this.audio.load();
+    }
+    this.revokeObjectUrl();
+    this.disposeTracks();
+    if ('mediaSession' in navigator) {
+      navigator.mediaSession.metadata = null;
+      navigator.mediaSession.playbackState = 'none';
+    }
+    this.setState({
+      recordingId: null,
+      isPlaying: false,
+      isLoading: false,
+      currentTime: 0,
+      duration: 0,
+      loopStart: null,
+      loopEnd: null,
+      mutedTracks: [],
+      soloTracks: [],
+    });
+  }
+
+  private async load(recording: RecordingMetadata): Promise<HTMLAudioElement | null> {
+    const audio = this.getAudioElement();
+    if (this.state.recordingId === recording.id && this.objectUrl) {
+      return audio;
+    }
+
+    const request = ++this.loadRequest;
+    audio.pause();
+    this.revokeObjectUrl();
+    this.disposeTracks();
+    this.setState({
+      recordingId: recording.id,
+      isPlaying: false,
+      isLoading: true,
+      currentTime: 0,
+      duration: recording.duration,
+      loopStart: null,
+      loopEnd: null,
+      mutedTracks: [],
+      soloTracks: [],
+    });
+
+    // Audio data is loaded lazily, the list itself only holds metadata
+    const blob = await audioStorage.getAudioBlob(recording.id);
+    if (request !== this.loadRequest) return null;
+    if (!blob) {
+      this.setState({ recordingId: null, isLoading: false });
+      throw new Error(`Audio for ${recording.id} not found`);
+    }
+
+    const trackPlayers = await this.loadTracks(recording);
+    if (request !== this.loadRequest) {
+      trackPlayers.forEach(player => URL.revokeObjectURL(player.objectUrl));
+      return null;
+    }
+    this.trackPlayers = trackPlayers;
+
+    this.objectUrl = URL.createObjectURL(blob);
+    audio.src = this.objectUrl;
+    audio.muted = trackPlayers.length > 0;
+    audio.playbackRate = this.state.playbackRate;
+    this.setState({ isLoading: false });
+    this.updateMediaSessionMetadata(recording);
+
+    if (this.state.skipSilence) {
+      this.analyzeSilence(recording.id, blob);
+    }
+    return audio;
+  }
+
+  private getAudioElement(): HTMLAudioElement {
+    if (this.audio) return this.audio;
+
+    const audio = new Audio();
+    audio.preload = 'auto';
+    audio.preservesPitch = true;
+
+    audio.addEventListener('loadedmetadata', () => {
+      // MediaRecorder output often reports an Infinity duration; keep the recorded one
+      if (Number.isFinite(audio.duration)) {
+        this.setState({ duration: audio.duration });
+      }
+    });
+    audio.addEventListener('play', () => {
+      this.trackContext?.resume();
+      this.syncTracks(true);
+      this.setState({ isPlaying: true });
+      this.startFrameLoop();
+      this.updateMediaSessionPlayback();
+    });
+    audio.addEventListener('pause', () => {
+      this.trackPlayers.forEach(player => player.audio.pause());
+      this.setState({ isPlaying: false, currentTime: audio.currentTime });
+      this.stopFrameLoop();
+      this.updateMediaSessionPlayback();
+    });
+    audio.addEventListener('ended', () => {
+      this.stopFrameLoop();
+      this.setState({ isPlaying: false, currentTime: 0 });
+      audio.currentTime = 0;
+    });
+    audio.addEventListener('seeked', () => this.syncTracks(true));
+    audio.addEventListener('ratechange', () => {
+      this.trackPlayers.forEach(player => {
+        player.audio.playbackRate = audio.playbackRate;
+      });
+    });
+    audio.addEventListener('timeupdate', () => {
+      this.setState({ currentTime: audio.currentTime });
+    });
+
+    this.audio = audio;
+    this.registerMediaSessionHandlers();
+    return audio;
+  }
+
+  // Lets hardware media keys and the OS media controls drive the shared player
+  private registerMediaSessionHandlers(): void {
+    if (!('mediaSession' in navigator)) return;
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => this.toggleCurrent()],
+      ['pause', () => this.pause()],
+      ['stop', () => this.unload()],
+      ['seekbackward', (details) => this.skip(-(details.seekOffset || SKIP_SECONDS))],
+      ['seekforward', (details) => this.skip(details.seekOffset || SKIP_SECONDS)],
+      ['seekto', (details) => {
+        if (this.audio && details.seekTime !== undefined) {
+          this.audio.currentTime = details.seekTime;
+          this.setState({ currentTime: details.seekTime });
+        }
+      }],
+    ];
+
+    handlers.forEach(([action, handler]) => {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Browsers throw for actions they do not support
+      }
+    });
+  }
+
+  private updateMediaSessionMetadata(recording: RecordingMetadata): void {
+    if (!('mediaSession' in navigator)) return;
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: recording.name,
+      artist: 'Audio Recorder',
+      album: new Date(recording.createdAt).toLocaleDateString(),
+    });
+  }
+
+  private updateMediaSessionPlayback(): void {
+    if (!('mediaSession' in navigator) || !this.audio) return;
+
+    navigator.mediaSession.playbackState = this.audio.paused ? 'paused' : 'playing';
+    const { duration, playbackRate } = this.state;
+    if (duration > 0) {
+      try {
+        navigator.mediaSession.setPositionState({
+          duration,
+          playbackRate,
+          position: Math.min(this.audio.currentTime, duration),
+        });
+      } catch {
+        // Position state is optional and rejects values some browsers consider out of range
+      }
+    }
+  }
+
+  // timeupdate fires only a few times a second, too coarse for loop and silence boundaries
+  private startFrameLoop(): void {
+    if (this.frameId !== null) return;
+
+    const tick = () => {
+      this.enforceBoundaries();
+      this.syncTracks(false);
+      this.frameId = requestAnimationFrame(tick);
+    };
+    this.frameId = requestAnimationFrame(tick);
+  }
+
+  private stopFrameLoop(): void {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+  }
+
+  private enforceBoundaries(): void {
+    const audio = this.audio;
+    const { recordingId, loopStart, loopEnd, skipSilence } = this.state;
+    if (!audio || !recordingId) return;
+
+    if (loopStart !== null && loopEnd !== null && audio.currentTime >= loopEnd) {
+      audio.currentTime = loopStart;
+      return;
+    }
+
+    if (skipSilence) {
+      const silence = this.silentRanges[recordingId]?.find(
+        range => audio.currentTime >= range.start && audio.currentTime < range.end
+      );
+      if (silence) {
+        // Never jump past the loop end, the loop check above takes over from there
+        audio.currentTime = loopEnd !== null && silence.end > loopEnd && audio.currentTime < loopEnd
+          ? loopEnd
+          : silence.end;
+      }
+    }
+  }
+
+  // Tracks without stored audio are skipped; the mix still plays as the clock
+  private async loadTracks(recording: RecordingMetadata): Promise<TrackPlayer[]> {
+    const players: TrackPlayer[] = [];
+    for (const track of recording.tracks || []) {
+      const blob = await audioStorage.getTrackAudio(recording.id, track.id);
+      if (!blob) continue;
+
+      const audio = new Audio();
+      audio.preload = 'auto';
+      audio.preservesPitch = true;
+      const objectUrl = URL.createObjectURL(blob);
+      audio.src = objectUrl;
+      audio.playbackRate = this.state.playbackRate;
+
+      const context = this.getTrackContext();
+      const source = context.createMediaElementSource(audio);
+      const gain = new GainNode(context, { gain: getTrackVolume(track) });
+      const panner = new StereoPannerNode(context, { pan: getTrackPan(track) });
+      source.connect(gain).connect(panner).connect(context.destination);
+      players.push({ track, audio, objectUrl, source, gain, panner });
+    }
+    return players;
+  }
+
+  private getTrackContext(): AudioContext {
+    if (!this.trackContext) {
+      this.trackContext = new AudioContext();
+    }
+    return this.trackContext;
+  }
+
+  // Keeps the track elements on the main element's position, shifted by each
+  // track's offset. A track only plays while the clock is inside its span; a
+  // forced sync always seeks, otherwise only drift beyond the tolerance is fixed.
+  private syncTracks(force: boolean): void {
+    const main = this.audio;
+    if (!main || this.trackPlayers.length === 0) return;
+
+    this.trackPlayers.forEach(({ track, audio }) => {
+      const position = main.currentTime - getTrackOffset(track);
+      // Duration is NaN until metadata loads; assume the track is long enough until then
+      const inSpan = position >= 0 && !(position >= audio.duration);
+      const target = Math.max(0, position);
+
+      if (force || (inSpan && Math.abs(audio.currentTime - target) > TRACK_DRIFT_SECONDS)) {
+        audio.currentTime = target;
+      }
+      const shouldPlay = !main.paused && inSpan;
+      if (shouldPlay === audio.paused) {
+        if (shouldPlay) {
+          audio.play().catch(error => console.error('Error playing track:', error));
+        } else {
+          audio.pause();
+        }
+      }
+    });
+  }
+
+  private applyTrackAudibility(): void {
+    const { mutedTracks, soloTracks } = this.state;
+    this.trackPlayers.forEach(({ track, gain }) => {
+      gain.gain.value = isTrackAudible(track.id, mutedTracks, soloTracks) ? getTrackVolume(track) : 0;
+    });
+  }
+
+  private disposeTracks(): void {
+    this.trackPlayers.forEach(player => {
+      player.source.disconnect();
+      player.audio.pause();
+      player.audio.removeAttribute('src');
+      player.audio.load();
+      URL.revokeObjectURL(player.objectUrl);
+    });
+    this.trackPlayers = [];
+  }
+
+  private async analyzeSilence(recordingId: string, blob?: Blob): Promise<void> {
+    if (this.silentRanges[recordingId]) return;
+
+    try {
+      const audioBlob = blob || await audioStorage.getAudioBlob(recordingId);
+      if (!audioBlob) return;
+
+      const buffer = await audioEditor.decode(audioBlob);
+      this.silentRanges[recordingId] = findSilentRanges(buffer);
+    } catch (error) {
+      console.error('Error analyzing silence:', error);
+    }
+  }
+
+  private revokeObjectUrl(): void {
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+  }
+
+  private loadSettings(): void {
+    if (this.settingsLoaded) return;
+    this.settingsLoaded = true;
+
+    const savedRate = Number(localStorage.getItem(PLAYBACK_RATE_KEY));
+    this.state = {
+      ...this.state,
+      playbackRate: Number.isFinite(savedRate) && savedRate > 0 ? clampRate(savedRate) : 1,
+      skipSilence: localStorage.getItem(SKIP_SILENCE_KEY) === 'true',
+    };
+  }
+
+  private setState(changes: Partial<PlaybackState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+export const playbackController = new PlaybackController();
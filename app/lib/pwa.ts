@@ -0,0 +1,61 @@
+// Extensions offered to the OS for sharing and "Open with"
+export const AUDIO_FILE_TYPES: { [mimeType: string]: string[] } = {
+  'audio/*': ['.wav', '.mp3', '.m4a', '.ogg', '.webm'],
+};
+
+// Must match the names used in public/sw.js
+export const SHARE_TARGET_PATH = '/share-target';
+export const SHARE_TARGET_FIELD = 'audio';
+const SHARED_FILES_CACHE = 'audio-recorder-shared-files';
+const FILENAME_HEADER = 'X-Filename';
+
+// File Handling API, not yet in the DOM typings
+interface LaunchParams {
+  files: FileSystemFileHandle[];
+}
+
+declare global {
+  interface Window {
+    launchQueue?: {
+      setConsumer: (consumer: (params: LaunchParams) => void) => void;
+    };
+  }
+}
+
+// Development builds change on every save, so only production caches the shell
+export const registerServiceWorker = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator) || process.env.NODE_ENV !== 'production') return;
+
+  try {
+    await navigator.serviceWorker.register('/sw.js', { scope: '/' });
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+  }
+};
+
+// Reads and removes the files the service worker received through the share
+// target; they are taken once, so a failed import is not retried on every load
+export const takeSharedFiles = async (): Promise<File[]> => {
+  if (!('caches' in window)) return [];
+
+  const cache = await caches.open(SHARED_FILES_CACHE);
+  const files: File[] = [];
+  for (const request of await cache.keys()) {
+    const response = await cache.match(request);
+    await cache.delete(request);
+    if (!response) continue;
+
+    const blob = await response.blob();
+    const name = decodeURIComponent(response.headers.get(FILENAME_HEADER) || '') || 'Shared audio';
+    files.push(new File([blob], name, { type: blob.type }));
+  }
+  return files;
+};
+
+// Files opened with the installed app from the OS file manager
+export const onLaunchFiles = (handler: (files: File[]) => void): void => {
+  window.launchQueue?.setConsumer(async (params) => {
+    if (params.files.length === 0) return;
+    handler(await Promise.all(params.files.map(handle => handle.getFile())));
+  });
+};
@@ -0,0 +1,36 @@
+// A scheduled start lives in sessionStorage, so it survives a reload of the
+// tab but not closing it; a recorder that is not open cannot start anyway
+const SCHEDULE_KEY = 'audioRecorder.scheduledStart';
+
+// A start missed by more than this, e.g. while the page was reloading, is dropped
+export const SCHEDULE_GRACE_MS = 60 * 1000;
+// setTimeout fires immediately for delays that overflow a 32-bit int
+export const MAX_TIMER_DELAY_MS = 0x7fffffff;
+
+export const loadScheduledStart = (): Date | null => {
+  try {
+    const saved = sessionStorage.getItem(SCHEDULE_KEY);
+    const date = saved ? new Date(saved) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveScheduledStart = (startAt: Date | null): void => {
+  try {
+    if (startAt) {
+      sessionStorage.setItem(SCHEDULE_KEY, startAt.toISOString());
+    } else {
+      sessionStorage.removeItem(SCHEDULE_KEY);
+    }
+  } catch (error) {
+    console.error('Failed to save scheduled start:', error);
+  }
+};
+
+// Formats a date for a datetime-local input, which expects local time without a zone
+export const toDateTimeLocal = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
@@ -0,0 +1,68 @@
+import { RecordingMetadata, RecordingQuery } from '../types/audio';
+
+export const isQueryEmpty = (query: RecordingQuery): boolean =>
+  Object.values(query).every(value => value === undefined || value === '');
+
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase();
+
+// Text that free-form search matches against
+const getSearchableText = (recording: RecordingMetadata): string =>
+  [
+    recording.name,
+    recording.notes || '',
+    ...(recording.tags || []),
+    ...(recording.transcript?.segments.map(segment => segment.text) || []),
+  ].join(' ').toLowerCase();
+
+export const matchesQuery = (recording: RecordingMetadata, query: RecordingQuery): boolean => {
+  if (query.text) {
+    const haystack = getSearchableText(recording);
+    const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.every(term => haystack.includes(term))) return false;
+  }
+
+  if (query.tag && !(recording.tags || []).includes(normalizeTag(query.tag))) {
+    return false;
+  }
+
+  const createdAt = new Date(recording.createdAt);
+  if (query.from && createdAt < startOfDay(query.from)) return false;
+  if (query.to && createdAt > endOfDay(query.to)) return false;
+
+  if (query.minDuration !== undefined && recording.duration < query.minDuration) return false;
+  if (query.maxDuration !== undefined && recording.duration > query.maxDuration) return false;
+
+  return true;
+};
+
+// Dates are kept as yyyy-mm-dd strings and interpreted in local time
+export const startOfDay = (date: string): Date => new Date(`${date}T00:00:00`);
+export const endOfDay = (date: string): Date => new Date(`${date}T23:59:59.999`);
+
+export const queryToSearchParams = (query: RecordingQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.text) params.set('q', query.text);
+  if (query.tag) params.set('tag', query.tag);
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.minDuration !== undefined) params.set('min', String(query.minDuration));
+  if (query.maxDuration !== undefined) params.set('max', String(query.maxDuration));
+  return params;
+};
+
+export const parseSearchParams = (params: URLSearchParams): RecordingQuery => {
+  const parseNumber = (value: string | null): number | undefined => {
+    if (value === null || value === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+
+  return {
+    text: params.get('q') || undefined,
+    tag: params.get('tag') || undefined,
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    minDuration: parseNumber(params.get('min')),
+    maxDuration: parseNumber(params.get('max')),
+  };
+};
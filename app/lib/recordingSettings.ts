@@ -0,0 +1,125 @@
+import { AudioDevice } from './audioDevices';
+
+export interface RecordingSettings {
+  // Empty string lets the browser choose
+  mimeType: string;
+  audioBitsPerSecond: number | null;
+  channelCount: number | null;
+  sampleRate: number | null;
+  // Stored whole so it can be found again after the browser rotates its id
+  defaultDevice: AudioDevice | null;
+  nameTemplate: string;
+  countdown: boolean;
+  // Takes are stopped and saved once they reach this length
+  maxDurationSeconds: number | null;
+}
+
+export interface RecordingNameValues {
+  startedAt: Date;
+  device: string;
+  duration: number;
+}
+
+export const DEFAULT_NAME_TEMPLATE = 'Recording {date} {time}';
+
+export const DEFAULT_RECORDING_SETTINGS: RecordingSettings = {
+  mimeType: '',
+  audioBitsPerSecond: null,
+  channelCount: null,
+  sampleRate: null,
+  defaultDevice: null,
+  nameTemplate: DEFAULT_NAME_TEMPLATE,
+  countdown: false,
+  maxDurationSeconds: null,
+};
+
+// Containers and codecs worth offering; the list shown is whatever the browser supports
+const CANDIDATE_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/webm;codecs=pcm',
+  'audio/webm',
+  'audio/ogg;codecs=opus',
+  'audio/ogg',
+  'audio/mp4;codecs=mp4a.40.2',
+  'audio/mp4;codecs=opus',
+  'audio/mp4',
+  'audio/aac',
+  'audio/mpeg',
+  'audio/wav',
+];
+
+export const BITRATE_OPTIONS = [32000, 64000, 96000, 128000, 192000, 256000, 320000];
+export const SAMPLE_RATE_OPTIONS = [16000, 22050, 44100, 48000];
+export const CHANNEL_OPTIONS = [1, 2];
+export const NAME_TEMPLATE_TOKENS = ['{date}', '{time}', '{device}', '{duration}'];
+export const COUNTDOWN_SECONDS = 3;
+export const MAX_DURATION_OPTIONS = [60, 300, 600, 900, 1800, 3600, 7200];
+
+const RECORDING_SETTINGS_KEY = 'audioRecorder.recordingSettings';
+
+// Settings saved before the whole device was stored only kept its id
+interface LegacyRecordingSettings extends Partial<RecordingSettings> {
+  defaultDeviceId?: string;
+}
+
+// The old id still finds the mic until the browser rotates it; its label is
+// unknown, so a rotated id cannot be matched by label
+const migrateSettings = ({ defaultDeviceId, ...settings }: LegacyRecordingSettings): Partial<RecordingSettings> => ({
+  ...settings,
+  ...(defaultDeviceId && !settings.defaultDevice
+    ? { defaultDevice: { deviceId: defaultDeviceId, label: '', groupId: '' } }
+    : {}),
+});
+
+export const loadRecordingSettings = (): RecordingSettings => {
+  try {
+    const saved = localStorage.getItem(RECORDING_SETTINGS_KEY);
+    return { ...DEFAULT_RECORDING_SETTINGS, ...(saved ? migrateSettings(JSON.parse(saved)) : {}) };
+  } catch {
+    return DEFAULT_RECORDING_SETTINGS;
+  }
+};
+
+export const saveRecordingSettings = (settings: RecordingSettings): void => {
+  localStorage.setItem(RECORDING_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getSupportedMimeTypes = (): string[] => {
+  if (typeof MediaRecorder === 'undefined') return [];
+  return CANDIDATE_MIME_TYPES.filter(mimeType => MediaRecorder.isTypeSupported(mimeType));
+};
+
+// A saved type can stop being supported, e.g. when the settings came from another browser
+export const getRecorderOptions = (settings: RecordingSettings): MediaRecorderOptions => ({
+  ...(settings.mimeType && MediaRecorder.isTypeSupported(settings.mimeType) ? { mimeType: settings.mimeType } : {}),
+  ...(settings.audioBitsPerSecond ? { audioBitsPerSecond: settings.audioBitsPerSecond } : {}),
+});
+
+export const getFormatConstraints = (settings: RecordingSettings): MediaTrackConstraints => ({
+  ...(settings.channelCount ? { channelCount: { ideal: settings.channelCount } } : {}),
+  ...(settings.sampleRate ? { sampleRate: { ideal: settings.sampleRate } } : {}),
+});
+
+const formatDuration = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}m${secs.toString().padStart(2, '0')}s`;
+};
+
+export const formatRecordingName = (template: string, values: RecordingNameValues): string => {
+  const name = (template || DEFAULT_NAME_TEMPLATE)
+    .replace(/\{date\}/g, values.startedAt.toLocaleDateString())
+    .replace(/\{time\}/g, values.startedAt.toLocaleTimeString())
+    .replace(/\{device\}/g, values.device || 'Microphone')
+    .replace(/\{duration\}/g, formatDuration(values.duration))
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return name || `Recording ${values.startedAt.toLocaleString()}`;
+};
+
+export const describeMimeType = (mimeType: string): string => {
+  const [container, codecs] = mimeType.split(';');
+  const codec = codecs?.split('=')[1];
+  return codec ? `${container.replace('audio/', '').toUpperCase()} (${codec})` : container.replace('audio/', '').toUpperCase();
+};
@@ -0,0 +1,29 @@
+import { RecordingMetadata, RetentionRule } from '../types/audio';
+
+const RULES_KEY = 'audioRecorder.retentionRules';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const loadRetentionRules = (): RetentionRule[] => {
+  try {
+    const saved = localStorage.getItem(RULES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRetentionRules = (rules: RetentionRule[]): void => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+export const describeRule = (rule: RetentionRule): string =>
+  `Delete recordings older than ${rule.maxAgeDays} day${rule.maxAgeDays !== 1 ? 's' : ''}` +
+  (rule.keepTag ? ` unless tagged "${rule.keepTag}"` : '');
+
+export const isExpired = (recording: RecordingMetadata, rule: RetentionRule, now: Date = new Date()): boolean => {
+  if (!rule.enabled) return false;
+  if (rule.keepTag && (recording.tags || []).includes(rule.keepTag)) return false;
+
+  const age = now.getTime() - new Date(recording.createdAt).getTime();
+  return age > rule.maxAgeDays * DAY_MS;
+};
@@ -0,0 +1,196 @@
+import { createReadStream } from 'fs';
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile, appendFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { RemoteRecording } from '../../types/audio';
+import {
+  RecordingStorageAdapter,
+  StorageNotFoundError,
+  StoredAudio,
+  UploadOffsetError,
+  UploadStatus,
+  isAudioMimeType,
+  isValidId,
+} from './storageAdapter';
+
+interface UploadRecord {
+  uploadId: string;
+  size: number;
+  metadata: Omit<RemoteRecording, 'size' | 'uploadedAt'>;
+}
+
+const isMissing = (error: unknown): boolean =>
+  (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+// Keeps each recording as <id>.json metadata next to <id>.audio, with
+// in-progress uploads under uploads/ until their last byte arrives
+export class FileSystemRecordingStore implements RecordingStorageAdapter {
+  // Writes to one upload run one after another, so two requests for the same
+  // offset cannot both pass the offset check and append twice
+  private uploadLocks = new Map<string, Promise<unknown>>();
+
+  constructor(private rootDir: string) {}
+
+  private get recordingsDir(): string {
+    return path.join(this.rootDir, 'recordings');
+  }
+
+  private get uploadsDir(): string {
+    return path.join(this.rootDir, 'uploads');
+  }
+
+  private metadataPath(id: string): string {
+    return path.join(this.recordingsDir, `${id}.json`);
+  }
+
+  private audioPath(id: string): string {
+    return path.join(this.recordingsDir, `${id}.audio`);
+  }
+
+  private uploadRecordPath(uploadId: string): string {
+    return path.join(this.uploadsDir, `${uploadId}.json`);
+  }
+
+  private uploadDataPath(uploadId: string): string {
+    return path.join(this.uploadsDir, `${uploadId}.part`);
+  }
+
+  private assertId(id: string): void {
+    if (!isValidId(id)) {
+      throw new StorageNotFoundError(`Invalid id: ${id}`);
+    }
+  }
+
+  private async withUploadLock<T>(uploadId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.uploadLocks.get(uploadId) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.uploadLocks.set(uploadId, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.uploadLocks.get(uploadId) === current) {
+        this.uploadLocks.delete(uploadId);
+      }
+    }
+  }
+
+  async list(): Promise<RemoteRecording[]> {
+    await mkdir(this.recordingsDir, { recursive: true });
+    const files = await readdir(this.recordingsDir);
+    const recordings = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.get(file.slice(0, -'.json'.length)))
+    );
+    return recordings
+      .filter((recording): recording is RemoteRecording => recording !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(id: string): Promise<RemoteRecording | null> {
+    if (!isValidId(id)) return null;
+    try {
+      return JSON.parse(await readFile(this.metadataPath(id), 'utf8'));
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  async getAudio(id: string): Promise<StoredAudio | null> {
+    const metadata = await this.get(id);
+    if (!metadata) return null;
+
+    const stream = Readable.toWeb(createReadStream(this.audioPath(id))) as ReadableStream<Uint8Array>;
+    // Recordings stored before types were checked must not be served as anything else
+    const mimeType = isAudioMimeType(metadata.mimeType) ? metadata.mimeType : 'application/octet-stream';
+    return { stream, mimeType, size: metadata.size };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!(await this.get(id))) return false;
+    await rm(this.audioPath(id), { force: true });
+    await rm(this.metadataPath(id), { force: true });
+    return true;
+  }
+
+  async createUpload(metadata: Omit<RemoteRecording, 'size' | 'uploadedAt'>, size: number): Promise<UploadStatus> {
+    this.assertId(metadata.id);
+    await mkdir(this.uploadsDir, { recursive: true });
+
+    // One upload per recording, so a client that lost its upload id resumes instead of restarting.
+    // Uploads have their own directory, so the recording id is reused as is and any valid id fits.
+    const uploadId = metadata.id;
+    return this.withUploadLock(uploadId, async () => {
+      const existing = await this.getUpload(uploadId);
+      if (existing && existing.size === size) {
+        return existing;
+      }
+
+      const record: UploadRecord = { uploadId, size, metadata };
+      await writeFile(this.uploadRecordPath(uploadId), JSON.stringify(record));
+      await writeFile(this.uploadDataPath(uploadId), new Uint8Array(0));
+      return { uploadId, recordingId: metadata.id, offset: 0, size, complete: size === 0 };
+    });
+  }
+
+  async getUpload(uploadId: string): Promise<UploadStatus | null> {
+    if (!isValidId(uploadId)) return null;
+
+    let record: UploadRecord;
+    try {
+      record = JSON.parse(await readFile(this.uploadRecordPath(uploadId), 'utf8'));
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+
+    const { size: offset } = await stat(this.uploadDataPath(uploadId));
+    return {
+      uploadId,
+      recordingId: record.metadata.id,
+      offset,
+      size: record.size,
+      complete: false,
+    };
+  }
+
+  async appendUpload(uploadId: string, offset: number, data: Uint8Array): Promise<UploadStatus> {
+    return this.withUploadLock(uploadId, () => this.appendChunk(uploadId, offset, data));
+  }
+
+  private async appendChunk(uploadId: string, offset: number, data: Uint8Array): Promise<UploadStatus> {
+    const status = await this.getUpload(uploadId);
+    if (!status) {
+      throw new StorageNotFoundError(`Upload ${uploadId} not found`);
+    }
+    if (offset !== status.offset || offset + data.length > status.size) {
+      throw new UploadOffsetError(status.offset);
+    }
+
+    await appendFile(this.uploadDataPath(uploadId), data);
+    const newOffset = offset + data.length;
+
+    if (newOffset < status.size) {
+      return { ...status, offset: newOffset };
+    }
+
+    await this.finishUpload(uploadId);
+    return { ...status, offset: newOffset, complete: true };
+  }
+
+  private async finishUpload(uploadId: string): Promise<void> {
+    const record: UploadRecord = JSON.parse(await readFile(this.uploadRecordPath(uploadId), 'utf8'));
+    const recording: RemoteRecording = {
+      ...record.metadata,
+      size: record.size,
+      uploadedAt: new Date().toISOString(),
+    };
+
+    await mkdir(this.recordingsDir, { recursive: true });
+    await rename(this.uploadDataPath(uploadId), this.audioPath(recording.id));
+    await writeFile(this.metadataPath(recording.id), JSON.stringify(recording));
+    await rm(this.uploadRecordPath(uploadId), { force: true });
+  }
+}
@@ -0,0 +1,46 @@
+import path from 'path';
+import { RemoteRecording } from '../../types/audio';
+import { FileSystemRecordingStore } from './fileSystemStore';
+import { ShareLookup, ShareStore } from './shareStore';
+import { RecordingStorageAdapter } from './storageAdapter';
+
+export * from './storageAdapter';
+export * from './ownerAuth';
+export type { CreateShareOptions, ShareLookup } from './shareStore';
+
+let store: RecordingStorageAdapter | null = null;
+let shareStore: ShareStore | null = null;
+
+// Recordings live under RECORDINGS_DIR, defaulting to .data in the project root
+const getRootDir = (): string => process.env.RECORDINGS_DIR || path.join(process.cwd(), '.data');
+
+export const getRecordingStore = (): RecordingStorageAdapter => {
+  if (!store) {
+    store = new FileSystemRecordingStore(getRootDir());
+  }
+  return store;
+};
+
+export const getShareStore = (): ShareStore => {
+  if (!shareStore) {
+    shareStore = new ShareStore(getRootDir());
+  }
+  return shareStore;
+};
+
+export const getShareCookieName = (token: string): string => `share_${token}`;
+
+// A share whose recording was deleted from the server is gone, just like a revoked one
+export const lookupShare = async (token: string): Promise<ShareLookup & { recording: RemoteRecording | null }> => {
+  const lookup = await getShareStore().lookup(token);
+  if (!lookup.share) {
+    return { ...lookup, recording: null };
+  }
+
+  const recording = await getRecordingStore().get(lookup.share.recordingId);
+  return {
+    ...lookup,
+    status: lookup.status === 'active' && !recording ? 'missing' : lookup.status,
+    recording,
+  };
+};
@@ -0,0 +1,18 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+
+// Owner endpoints (sync and share management) expect the key from
+// RECORDINGS_API_KEY as a bearer token. Without the variable they stay closed.
+export const isOwnerRequest = (request: Request): boolean => {
+  const key = process.env.RECORDINGS_API_KEY;
+  const match = /^Bearer (.+)$/.exec(request.headers.get('authorization') || '');
+  if (!key || !match) return false;
+
+  // Hash both sides so the comparison takes the same time whatever their lengths
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(key));
+};
+
+// Returns the 401 response to send back, or null when the caller is the owner
+export const requireOwner = (request: Request): NextResponse | null =>
+  isOwnerRequest(request) ? null : NextResponse.json({ error: 'Owner credentials required' }, { status: 401 });
@@ -0,0 +1,147 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { mkdir, readFile, readdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { RecordingShare, ShareStatus } from '../../types/audio';
+import { isValidId } from './storageAdapter';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+interface ShareRecord extends RecordingShare {
+  passwordHash: string | null;
+  passwordSalt: string | null;
+  peaks: number[];
+}
+
+export interface CreateShareOptions {
+  recordingId: string;
+  expiresInHours: number | null;
+  password?: string;
+  peaks: number[];
+}
+
+export interface ShareLookup {
+  share: RecordingShare | null;
+  peaks: number[];
+  status: ShareStatus | null;
+}
+
+const KEY_LENGTH = 32;
+
+const toPublicShare = ({ passwordHash, passwordSalt, peaks, ...share }: ShareRecord): RecordingShare => share;
+
+// Share links for recordings already on the server, one JSON file per token
+export class ShareStore {
+  constructor(private rootDir: string) {}
+
+  private get sharesDir(): string {
+    return path.join(this.rootDir, 'shares');
+  }
+
+  private sharePath(token: string): string {
+    return path.join(this.sharesDir, `${token}.json`);
+  }
+
+  private async read(token: string): Promise<ShareRecord | null> {
+    if (!isValidId(token)) return null;
+    try {
+      return JSON.parse(await readFile(this.sharePath(token), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async write(record: ShareRecord): Promise<void> {
+    await mkdir(this.sharesDir, { recursive: true });
+    await writeFile(this.sharePath(record.token), JSON.stringify(record));
+  }
+
+  async create(options: CreateShareOptions): Promise<RecordingShare> {
+    const now = new Date();
+    const salt = options.password ? randomBytes(16).toString('hex') : null;
+
+    const record: ShareRecord = {
+      token: randomBytes(18).toString('base64url'),
+      recordingId: options.recordingId,
+      createdAt: now.toISOString(),
+      expiresAt: options.expiresInHours
+        ? new Date(now.getTime() + options.expiresInHours * 60 * 60 * 1000).toISOString()
+        : null,
+      revokedAt: null,
+      hasPassword: Boolean(options.password),
+      passwordHash: options.password && salt
+        ? (await scryptAsync(options.password, salt, KEY_LENGTH)).toString('hex')
+        : null,
+      passwordSalt: salt,
+      peaks: options.peaks,
+    };
+
+    await this.write(record);
+    return toPublicShare(record);
+  }
+
+  async listForRecording(recordingId: string): Promise<RecordingShare[]> {
+    await mkdir(this.sharesDir, { recursive: true });
+    const files = await readdir(this.sharesDir);
+    const records = await Promise.all(
+      files.filter(file => file.endsWith('.json')).map(file => this.read(file.slice(0, -'.json'.length)))
+    );
+
+    return records
+      .filter((record): record is ShareRecord => record !== null && record.recordingId === recordingId)
+      .map(toPublicShare)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async revoke(token: string): Promise<RecordingShare | null> {
+    const record = await this.read(token);
+    if (!record) return null;
+
+    if (!record.revokedAt) {
+      record.revokedAt = new Date().toISOString();
+      await this.write(record);
+    }
+    return toPublicShare(record);
+  }
+
+  // Status ignores whether the recording still exists; callers check the recording store for 'missing'
+  async lookup(token: string, now: Date = new Date()): Promise<ShareLookup> {
+    const record = await this.read(token);
+    if (!record) {
+      return { share: null, peaks: [], status: null };
+    }
+
+    let status: ShareStatus = 'active';
+    if (record.revokedAt) {
+      status = 'revoked';
+    } else if (record.expiresAt && new Date(record.expiresAt) <= now) {
+      status = 'expired';
+    }
+
+    return { share: toPublicShare(record), peaks: record.peaks, status };
+  }
+
+  async verifyPassword(token: string, password: string): Promise<boolean> {
+    const record = await this.read(token);
+    if (!record?.passwordHash || !record.passwordSalt) return false;
+
+    const expected = Buffer.from(record.passwordHash, 'hex');
+    const actual = await scryptAsync(password, record.passwordSalt, KEY_LENGTH);
+    return timingSafeEqual(expected, actual);
+  }
+
+  // Cookie value proving the password was entered; derived from the hash so it can't be forged
+  async getAccessKey(token: string): Promise<string | null> {
+    const record = await this.read(token);
+    if (!record?.passwordHash) return null;
+    return createHash('sha256').update(`${token}:${record.passwordHash}`).digest('hex');
+  }
+
+  async hasAccess(token: string, accessKey: string | undefined): Promise<boolean> {
+    const record = await this.read(token);
+    if (!record) return false;
+    if (!record.passwordHash) return true;
+    return accessKey !== undefined && accessKey === (await this.getAccessKey(token));
+  }
+}
@@ -0,0 +1,53 @@
+import { RemoteRecording } from '../../types/audio';
+
+export interface UploadStatus {
+  uploadId: string;
+  recordingId: string;
+  offset: number;
+  size: number;
+  complete: boolean;
+}
+
+export interface StoredAudio {
+  stream: ReadableStream<Uint8Array>;
+  mimeType: string;
+  size: number;
+}
+
+// Server-side home for synced recordings. Uploads are resumable: a client
+// creates an upload, appends byte ranges at the reported offset, and the
+// recording appears in list() once the final byte arrives.
+export interface RecordingStorageAdapter {
+  list(): Promise<RemoteRecording[]>;
+  get(id: string): Promise<RemoteRecording | null>;
+  getAudio(id: string): Promise<StoredAudio | null>;
+  delete(id: string): Promise<boolean>;
+  createUpload(metadata: Omit<RemoteRecording, 'size' | 'uploadedAt'>, size: number): Promise<UploadStatus>;
+  getUpload(uploadId: string): Promise<UploadStatus | null>;
+  appendUpload(uploadId: string, offset: number, data: Uint8Array): Promise<UploadStatus>;
+}
+
+export class StorageNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageNotFoundError';
+  }
+}
+
+export class UploadOffsetError extends Error {
+  constructor(public readonly expectedOffset: number) {
+    super(`Upload offset mismatch, expected ${expectedOffset}`);
+    this.name = 'UploadOffsetError';
+  }
+}
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export const isValidId = (id: string): boolean => ID_PATTERN.test(id);
+
+// The stored type is sent back as Content-Type, so anything but audio (with
+// optional parameters such as codecs) is refused
+const AUDIO_MIME_TYPE_PATTERN = /^audio\/[A-Za-z0-9.+-]+(\s*;\s*[A-Za-z0-9-]+=("[A-Za-z0-9.,+ -]*"|[A-Za-z0-9.,+-]+))*$/;
+
+export const isAudioMimeType = (mimeType: string): boolean =>
+  mimeType.length <= 128 && AUDIO_MIME_TYPE_PATTERN.test(mimeType);
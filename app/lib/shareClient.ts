@@ -0,0 +1,60 @@
+import { RecordingMetadata, RecordingShare } from '../types/audio';
+import { ownerFetch, syncEngine } from './syncEngine';
+import { waveformGenerator } from './waveform';
+
+export interface ShareOptions {
+  expiresInHours: number | null;
+  password?: string;
+}
+
+export const SHARE_EXPIRY_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+  { label: 'Never', hours: null },
+];
+
+export const getShareUrl = (token: string): string => `${window.location.origin}/r/${token}`;
+
+export class ShareClient {
+  // Publishing uploads the recording first, so sharing works without background sync
+  async createShare(recording: RecordingMetadata, options: ShareOptions): Promise<RecordingShare> {
+    await syncEngine.publish(recording);
+    const peaks = await waveformGenerator.getPeaks(recording);
+
+    const response = await ownerFetch('/api/shares', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        recordingId: recording.id,
+        expiresInHours: options.expiresInHours,
+        password: options.password || undefined,
+        peaks,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Creating share failed with status ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async listShares(recordingId: string): Promise<RecordingShare[]> {
+    const response = await ownerFetch(`/api/shares?recordingId=${encodeURIComponent(recordingId)}`);
+    if (!response.ok) {
+      throw new Error(`Listing shares failed with status ${response.status}`);
+    }
+    return (await response.json()).shares;
+  }
+
+  async revokeShare(token: string): Promise<RecordingShare> {
+    const response = await ownerFetch(`/api/shares/${token}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(`Revoking share failed with status ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+export const shareClient = new ShareClient();
@@ -0,0 +1,128 @@
+export type ShortcutAction =
+  | 'record'
+  | 'pauseResume'
+  | 'stop'
+  | 'pushToTalk'
+  | 'marker'
+  | 'playPause'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'showHelp';
+
+export type ShortcutBindings = { [action in ShortcutAction]: string };
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+  group: 'Recording' | 'Playback' | 'General';
+}
+
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  { action: 'record', label: 'Start recording', group: 'Recording' },
+  { action: 'pauseResume', label: 'Pause / resume recording', group: 'Recording' },
+  { action: 'stop', label: 'Stop and save recording', group: 'Recording' },
+  { action: 'pushToTalk', label: 'Hold to record (push-to-talk)', group: 'Recording' },
+  { action: 'marker', label: 'Drop a marker', group: 'Recording' },
+  { action: 'playPause', label: 'Play / pause', group: 'Playback' },
+  { action: 'seekBackward', label: 'Skip back', group: 'Playback' },
+  { action: 'seekForward', label: 'Skip forward', group: 'Playback' },
+  { action: 'showHelp', label: 'Show shortcuts', group: 'General' },
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  record: 'r',
+  pauseResume: 'p',
+  stop: 's',
+  pushToTalk: 't',
+  marker: 'm',
+  playPause: ' ',
+  seekBackward: 'ArrowLeft',
+  seekForward: 'ArrowRight',
+  showHelp: '?',
+};
+
+type ShortcutListener = (bindings: ShortcutBindings) => void;
+
+const SHORTCUTS_KEY = 'audioRecorder.shortcuts';
+
+// Single characters are compared case-insensitively, named keys as-is
+const normalizeKey = (key: string): string => (key.length === 1 ? key.toLowerCase() : key);
+
+export const formatKey = (key: string): string => {
+  if (key === ' ') return 'Space';
+  if (key.startsWith('Arrow')) return { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' }[key] || key;
+  return key.length === 1 ? key.toUpperCase() : key;
+};
+
+// Typing in a field must never trigger a shortcut
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+export class ShortcutManager {
+  private bindings: ShortcutBindings = DEFAULT_SHORTCUTS;
+  private listeners = new Set<ShortcutListener>();
+  private loaded = false;
+
+  getBindings(): ShortcutBindings {
+    this.load();
+    return this.bindings;
+  }
+
+  subscribe(listener: ShortcutListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getBindings());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Taking a key that another action uses swaps the two, so no key is ever bound twice
+  setBinding(action: ShortcutAction, key: string): void {
+    const normalized = normalizeKey(key);
+    const current = this.getBindings();
+    const conflict = (Object.keys(current) as ShortcutAction[])
+      .find(other => other !== action && current[other] === normalized);
+
+    this.save({
+      ...current,
+      ...(conflict ? { [conflict]: current[action] } : {}),
+      [action]: normalized,
+    });
+  }
+
+  reset(): void {
+    this.save(DEFAULT_SHORTCUTS);
+  }
+
+  match(event: KeyboardEvent): ShortcutAction | null {
+    if (event.ctrlKey || event.metaKey || event.altKey || isEditableTarget(event.target)) {
+      return null;
+    }
+
+    const key = normalizeKey(event.key);
+    const bindings = this.getBindings();
+    return (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action] === key) || null;
+  }
+
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const saved = localStorage.getItem(SHORTCUTS_KEY);
+      this.bindings = { ...DEFAULT_SHORTCUTS, ...(saved ? JSON.parse(saved) : {}) };
+    } catch {
+      this.bindings = DEFAULT_SHORTCUTS;
+    }
+  }
+
+  private save(bindings: ShortcutBindings): void {
+    this.bindings = bindings;
+    localStorage.setItem(SHORTCUTS_KEY, JSON.stringify(bindings));
+    this.listeners.forEach(listener => listener(bindings));
+  }
+}
+
+export const shortcutManager = new ShortcutManager();
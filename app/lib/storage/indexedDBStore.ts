@@ -0,0 +1,466 @@
+import {
+  AudioRecording,
+  RecordingChunk,
+  RecordingMetadata,
+  RecordingQuery,
+  RecordingSession,
+  RecordingSize,
+  RecordingSyncState,
+  RecordingsPage,
+  RecordingsPageCursor,
+  WaveformData,
+} from '../../types/audio';
+import {
+  AUDIO_STORE,
+  CHUNK_STORE,
+  LATEST_VERSION,
+  RECORDINGS_STORE,
+  SESSION_STORE,
+  SYNC_STORE,
+  TRACK_STORE,
+  WAVEFORM_STORE,
+  runMigrations,
+} from '../storageMigrations';
+import { endOfDay, matchesQuery, startOfDay } from '../recordingSearch';
+import { RecordingStore, StorageBackendKind, toRecordingMetadata } from './recordingStore';
+
+const DB_NAME = 'AudioRecorderDB';
+
+export class IndexedDBRecordingStore implements RecordingStore {
+  readonly kind: StorageBackendKind = 'indexeddb';
+  protected db: IDBDatabase | null = null;
+
+  constructor(private dbName: string = DB_NAME) {}
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async init(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, LATEST_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        runMigrations(request.result, request.transaction!, event.oldVersion);
+      };
+    });
+  }
+
+  async clear(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const storeNames = Array.from(this.db!.objectStoreNames);
+      const transaction = this.db!.transaction(storeNames, 'readwrite');
+      storeNames.forEach(name => transaction.objectStore(name).clear());
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  async saveRecording(recording: AudioRecording): Promise<void> {
+    return this.putRecording(toRecordingMetadata(recording), recording.blob);
+  }
+
+  // Writes metadata, and the audio too unless a subclass keeps audio elsewhere
+  protected async putRecording(metadata: RecordingMetadata, blob: Blob | null): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([RECORDINGS_STORE, AUDIO_STORE, WAVEFORM_STORE], 'readwrite');
+      transaction.objectStore(RECORDINGS_STORE).put(metadata);
+      if (blob) {
+        transaction.objectStore(AUDIO_STORE).put({ recordingId: metadata.id, blob });
+      }
+      // New audio invalidates any cached peaks for this id
+      transaction.objectStore(WAVEFORM_STORE).delete(metadata.id);
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async updateRecording(metadata: RecordingMetadata): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([RECORDINGS_STORE], 'readwrite');
+      const store = transaction.objectStore(RECORDINGS_STORE);
+      const request = store.put(metadata);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  // Walks the createdAt index newest first, resuming after the given cursor.
+  // The query's date range narrows the index range; other filters run per row.
+  async getRecordingsPage(
+    limit: number,
+    after?: RecordingsPageCursor,
+    query: RecordingQuery = {},
+  ): Promise<RecordingsPage> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([RECORDINGS_STORE], 'readonly');
+      const index = transaction.objectStore(RECORDINGS_STORE).index('createdAt');
+      const lower = query.from ? startOfDay(query.from) : undefined;
+      let upper = query.to ? endOfDay(query.to) : undefined;
+      if (after && (!upper || new Date(after.createdAt) < upper)) {
+        upper = new Date(after.createdAt);
+      }
+
+      let range: IDBKeyRange | undefined;
+      if (lower && upper) {
+        range = lower <= upper ? IDBKeyRange.bound(lower, upper) : undefined;
+        if (!range) {
+          resolve({ recordings: [], nextCursor: null });
+          return;
+        }
+      } else if (lower) {
+        range = IDBKeyRange.lowerBound(lower);
+      } else if (upper) {
+        range = IDBKeyRange.upperBound(upper);
+      }
+
+      const request = index.openCursor(range, 'prev');
+      const recordings: RecordingMetadata[] = [];
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve({ recordings, nextCursor: null });
+          return;
+        }
+
+        // Entries sharing the boundary timestamp come in descending id order;
+        // skip the ones the previous page already returned
+        const isBoundary = after && indexedDB.cmp(cursor.key, new Date(after.createdAt)) === 0;
+        if (isBoundary && indexedDB.cmp(cursor.primaryKey, after!.id) >= 0) {
+          cursor.continue();
+          return;
+        }
+
+        if (!matchesQuery(cursor.value, query)) {
+          cursor.continue();
+          return;
+        }
+
+        if (recordings.length === limit) {
+          const last = recordings[recordings.length - 1];
+          resolve({ recordings, nextCursor: { createdAt: last.createdAt, id: last.id } });
+          return;
+        }
+
+        recordings.push(cursor.value);
+        cursor.continue();
+      };
+    });
+  }
+
+  async getRecordings(): Promise<RecordingMetadata[]> {
+    const page = await this.getRecordingsPage(Infinity);
+    return page.recordings;
+  }
+
+  async countRecordings(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([RECORDINGS_STORE], 'readonly');
+      const store = transaction.objectStore(RECORDINGS_STORE);
+      const request = store.count();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  async getAllTags(): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([RECORDINGS_STORE], 'readonly');
+      const index = transaction.objectStore(RECORDINGS_STORE).index('tags');
+      const request = index.openKeyCursor(null, 'nextunique');
+      const tags: string[] = [];
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(tags);
+          return;
+        }
+        tags.push(cursor.key as string);
+        cursor.continue();
+      };
+    });
+  }
+
+  async deleteRecording(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [RECORDINGS_STORE, AUDIO_STORE, WAVEFORM_STORE, TRACK_STORE],
+        'readwrite',
+      );
+      transaction.objectStore(RECORDINGS_STORE).delete(id);
+      transaction.objectStore(AUDIO_STORE).delete(id);
+      transaction.objectStore(WAVEFORM_STORE).delete(id);
+      transaction.objectStore(TRACK_STORE).delete(IDBKeyRange.bound([id, ''], [id, '\uffff']));
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async getRecordingMetadata(id: string): Promise<RecordingMetadata | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([RECORDINGS_STORE], 'readonly');
+      const store = transaction.objectStore(RECORDINGS_STORE);
+      const request = store.get(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || null);
+    });
+  }
+
+  async getAudioBlob(id: string): Promise<Blob | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([AUDIO_STORE], 'readonly');
+      const store = transaction.objectStore(AUDIO_STORE);
+      const request = store.get(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result ? request.result.blob : null);
+    });
+  }
+
+  // Track audio counts towards the recording it belongs to
+  async getRecordingSizes(): Promise<RecordingSize[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([AUDIO_STORE, TRACK_STORE], 'readonly');
+      const bytes = new Map<string, number>();
+
+      [AUDIO_STORE, TRACK_STORE].forEach((storeName) => {
+        const request = transaction.objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          // Reading Blob.size does not load the audio data
+          const { recordingId, blob } = cursor.value;
+          bytes.set(recordingId, (bytes.get(recordingId) || 0) + blob.size);
+          cursor.continue();
+        };
+      });
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => {
+        const sizes = Array.from(bytes.entries()).map(([recordingId, size]) => ({ recordingId, bytes: size }));
+        resolve(sizes.sort((a, b) => b.bytes - a.bytes));
+      };
+    });
+  }
+
+  async getVersions(originalId: string): Promise<RecordingMetadata[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([RECORDINGS_STORE], 'readonly');
+      const store = transaction.objectStore(RECORDINGS_STORE);
+      const index = store.index('originalId');
+      const request = index.getAll(originalId);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const versions = request.result.sort((a, b) => (a.version || 0) - (b.version || 0));
+        resolve(versions);
+      };
+    });
+  }
+
+  async saveTrackAudio(recordingId: string, trackId: string, blob: Blob): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([TRACK_STORE], 'readwrite');
+      const store = transaction.objectStore(TRACK_STORE);
+      const request = store.put({ recordingId, trackId, blob });
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getTrackAudio(recordingId: string, trackId: string): Promise<Blob | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([TRACK_STORE], 'readonly');
+      const store = transaction.objectStore(TRACK_STORE);
+      const request = store.get([recordingId, trackId]);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result ? request.result.blob : null);
+    });
+  }
+
+  async saveWaveform(waveform: WaveformData): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([WAVEFORM_STORE], 'readwrite');
+      const store = transaction.objectStore(WAVEFORM_STORE);
+      const request = store.put(waveform);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getWaveform(recordingId: string): Promise<WaveformData | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([WAVEFORM_STORE], 'readonly');
+      const store = transaction.objectStore(WAVEFORM_STORE);
+      const request = store.get(recordingId);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || null);
+    });
+  }
+
+  async startSession(session: RecordingSession): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SESSION_STORE], 'readwrite');
+      const store = transaction.objectStore(SESSION_STORE);
+      const request = store.put(session);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async appendChunk(chunk: RecordingChunk): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([CHUNK_STORE], 'readwrite');
+      const store = transaction.objectStore(CHUNK_STORE);
+      const request = store.put(chunk);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getUnfinishedSessions(): Promise<RecordingSession[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SESSION_STORE], 'readonly');
+      const store = transaction.objectStore(SESSION_STORE);
+      const request = store.getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  async getSessionChunks(sessionId: string): Promise<RecordingChunk[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([CHUNK_STORE], 'readonly');
+      const store = transaction.objectStore(CHUNK_STORE);
+      const index = store.index('sessionId');
+      const request = index.getAll(sessionId);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const chunks = request.result.sort((a, b) => a.sequence - b.sequence);
+        resolve(chunks);
+      };
+    });
+  }
+
+  // Removes a session and its chunks, once saved normally or when discarded
+  async finishSession(sessionId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SESSION_STORE, CHUNK_STORE], 'readwrite');
+      transaction.objectStore(SESSION_STORE).delete(sessionId);
+      transaction.objectStore(CHUNK_STORE).delete(
+        IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity])
+      );
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async getSyncStates(): Promise<RecordingSyncState[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SYNC_STORE], 'readonly');
+      const store = transaction.objectStore(SYNC_STORE);
+      const request = store.getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
+  async saveSyncState(state: RecordingSyncState): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SYNC_STORE], 'readwrite');
+      const store = transaction.objectStore(SYNC_STORE);
+      const request = store.put(state);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async deleteSyncState(recordingId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SYNC_STORE], 'readwrite');
+      const store = transaction.objectStore(SYNC_STORE);
+      const request = store.delete(recordingId);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+}
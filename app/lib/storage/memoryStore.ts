@@ -0,0 +1,173 @@
+import {
+  AudioRecording,
+  RecordingChunk,
+  RecordingMetadata,
+  RecordingQuery,
+  RecordingSession,
+  RecordingSize,
+  RecordingSyncState,
+  RecordingsPage,
+  RecordingsPageCursor,
+  WaveformData,
+} from '../../types/audio';
+import { matchesQuery } from '../recordingSearch';
+import { RecordingStore, StorageBackendKind, toRecordingMetadata } from './recordingStore';
+
+// Newest first, ties broken by descending id, matching the IndexedDB index walk
+const compareNewestFirst = (a: RecordingMetadata, b: RecordingMetadata): number =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+const isAfterCursor = (recording: RecordingMetadata, after: RecordingsPageCursor): boolean => {
+  const time = new Date(recording.createdAt).getTime();
+  const cursorTime = new Date(after.createdAt).getTime();
+  return time < cursorTime || (time === cursorTime && recording.id < after.id);
+};
+
+// Keeps everything in maps for the lifetime of the page. Used in private
+// browsing, where persistent storage is unavailable, and in tests.
+export class MemoryRecordingStore implements RecordingStore {
+  readonly kind: StorageBackendKind = 'memory';
+  private recordings = new Map<string, RecordingMetadata>();
+  private audio = new Map<string, Blob>();
+  // Keyed by recording id, then track id
+  private trackAudio = new Map<string, Map<string, Blob>>();
+  private waveforms = new Map<string, WaveformData>();
+  private sessions = new Map<string, RecordingSession>();
+  private chunks = new Map<string, RecordingChunk[]>();
+  private syncStates = new Map<string, RecordingSyncState>();
+
+  async init(): Promise<void> {}
+
+  async clear(): Promise<void> {
+    [this.recordings, this.audio, this.trackAudio, this.waveforms, this.sessions, this.chunks, this.syncStates]
+      .forEach(map => map.clear());
+  }
+
+  close(): void {}
+
+  async saveRecording(recording: AudioRecording): Promise<void> {
+    this.recordings.set(recording.id, toRecordingMetadata(recording));
+    this.audio.set(recording.id, recording.blob);
+    this.waveforms.delete(recording.id);
+  }
+
+  async updateRecording(metadata: RecordingMetadata): Promise<void> {
+    this.recordings.set(metadata.id, metadata);
+  }
+
+  async getRecordingsPage(
+    limit: number,
+    after?: RecordingsPageCursor,
+    query: RecordingQuery = {},
+  ): Promise<RecordingsPage> {
+    const matching = Array.from(this.recordings.values())
+      .sort(compareNewestFirst)
+      .filter(recording => (!after || isAfterCursor(recording, after)) && matchesQuery(recording, query));
+
+    const recordings = matching.slice(0, limit);
+    const last = recordings[recordings.length - 1];
+    return {
+      recordings,
+      nextCursor: matching.length > limit ? { createdAt: last.createdAt, id: last.id } : null,
+    };
+  }
+
+  async getRecordings(): Promise<RecordingMetadata[]> {
+    const page = await this.getRecordingsPage(Infinity);
+    return page.recordings;
+  }
+
+  async countRecordings(): Promise<number> {
+    return this.recordings.size;
+  }
+
+  async getAllTags(): Promise<string[]> {
+    const tags = new Set<string>();
+    this.recordings.forEach(recording => recording.tags?.forEach(tag => tags.add(tag)));
+    return Array.from(tags).sort();
+  }
+
+  async deleteRecording(id: string): Promise<void> {
+    this.recordings.delete(id);
+    this.audio.delete(id);
+    this.trackAudio.delete(id);
+    this.waveforms.delete(id);
+  }
+
+  async getRecordingMetadata(id: string): Promise<RecordingMetadata | null> {
+    return this.recordings.get(id) || null;
+  }
+
+  async getAudioBlob(id: string): Promise<Blob | null> {
+    return this.audio.get(id) || null;
+  }
+
+  async getRecordingSizes(): Promise<RecordingSize[]> {
+    return Array.from(this.audio.entries())
+      .map(([recordingId, blob]) => ({
+        recordingId,
+        bytes: Array.from(this.trackAudio.get(recordingId)?.values() || [])
+          .reduce((total, track) => total + track.size, blob.size),
+      }))
+      .sort((a, b) => b.bytes - a.bytes);
+  }
+
+  async getVersions(originalId: string): Promise<RecordingMetadata[]> {
+    return Array.from(this.recordings.values())
+      .filter(recording => recording.originalId === originalId)
+      .sort((a, b) => (a.version || 0) - (b.version || 0));
+  }
+
+  async saveTrackAudio(recordingId: string, trackId: string, blob: Blob): Promise<void> {
+    const tracks = this.trackAudio.get(recordingId) || new Map<string, Blob>();
+    tracks.set(trackId, blob);
+    this.trackAudio.set(recordingId, tracks);
+  }
+
+  async getTrackAudio(recordingId: string, trackId: string): Promise<Blob | null> {
+    return this.trackAudio.get(recordingId)?.get(trackId) || null;
+  }
+
+  async saveWaveform(waveform: WaveformData): Promise<void> {
+    this.waveforms.set(waveform.recordingId, waveform);
+  }
+
+  async getWaveform(recordingId: string): Promise<WaveformData | null> {
+    return this.waveforms.get(recordingId) || null;
+  }
+
+  async startSession(session: RecordingSession): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+
+  async appendChunk(chunk: RecordingChunk): Promise<void> {
+    const chunks = (this.chunks.get(chunk.sessionId) || [])
+      .filter(existing => existing.sequence !== chunk.sequence);
+    this.chunks.set(chunk.sessionId, [...chunks, chunk]);
+  }
+
+  async getUnfinishedSessions(): Promise<RecordingSession[]> {
+    return Array.from(this.sessions.values());
+  }
+
+  async getSessionChunks(sessionId: string): Promise<RecordingChunk[]> {
+    return [...(this.chunks.get(sessionId) || [])].sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async finishSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+    this.chunks.delete(sessionId);
+  }
+
+  async getSyncStates(): Promise<RecordingSyncState[]> {
+    return Array.from(this.syncStates.values());
+  }
+
+  async saveSyncState(state: RecordingSyncState): Promise<void> {
+    this.syncStates.set(state.recordingId, state);
+  }
+
+  async deleteSyncState(recordingId: string): Promise<void> {
+    this.syncStates.delete(recordingId);
+  }
+}
@@ -0,0 +1,117 @@
+import { AudioRecording, RecordingMetadata, RecordingSize } from '../../types/audio';
+import { IndexedDBRecordingStore } from './indexedDBStore';
+import { StorageBackendKind, toRecordingMetadata } from './recordingStore';
+
+const OPFS_DB_NAME = 'AudioRecorderOPFSDB';
+const AUDIO_DIRECTORY = 'recordings';
+
+const getTrackFileName = (recordingId: string, trackId: string): string => `${recordingId}.${trackId}`;
+
+// The mix plus one file per track
+const getAudioFileNames = (recording: RecordingMetadata): string[] => [
+  recording.id,
+  ...(recording.tracks || []).map(track => getTrackFileName(recording.id, track.id)),
+];
+
+// Keeps audio as files in the Origin Private File System, which handles large
+// files better than IndexedDB blobs; metadata and everything else stays indexed
+export class OPFSRecordingStore extends IndexedDBRecordingStore {
+  readonly kind: StorageBackendKind = 'opfs';
+  private directory: FileSystemDirectoryHandle | null = null;
+
+  constructor() {
+    super(OPFS_DB_NAME);
+  }
+
+  static isSupported(): boolean {
+    return IndexedDBRecordingStore.isSupported()
+      && typeof navigator !== 'undefined'
+      && typeof navigator.storage?.getDirectory === 'function';
+  }
+
+  async init(): Promise<void> {
+    const root = await navigator.storage.getDirectory();
+    this.directory = await root.getDirectoryHandle(AUDIO_DIRECTORY, { create: true });
+    await super.init();
+  }
+
+  async clear(): Promise<void> {
+    const fileNames = (await this.getRecordings()).flatMap(getAudioFileNames);
+    await super.clear();
+    await Promise.all(fileNames.map(name => this.removeAudioFile(name)));
+  }
+
+  async saveRecording(recording: AudioRecording): Promise<void> {
+    await this.writeAudioFile(recording.id, recording.blob);
+    await this.putRecording(toRecordingMetadata(recording), null);
+  }
+
+  async deleteRecording(id: string): Promise<void> {
+    const metadata = await this.getRecordingMetadata(id);
+    await super.deleteRecording(id);
+    await Promise.all((metadata ? getAudioFileNames(metadata) : [id]).map(name => this.removeAudioFile(name)));
+  }
+
+  async saveTrackAudio(recordingId: string, trackId: string, blob: Blob): Promise<void> {
+    await this.writeAudioFile(getTrackFileName(recordingId, trackId), blob);
+  }
+
+  async getTrackAudio(recordingId: string, trackId: string): Promise<Blob | null> {
+    const metadata = await this.getRecordingMetadata(recordingId);
+    const track = metadata?.tracks?.find(t => t.id === trackId);
+    return this.readAudioFile(getTrackFileName(recordingId, trackId), track?.mimeType || '');
+  }
+
+  async getAudioBlob(id: string): Promise<Blob | null> {
+    const metadata = await this.getRecordingMetadata(id);
+    if (!metadata) return null;
+    return this.readAudioFile(id, metadata.mimeType);
+  }
+
+  async getRecordingSizes(): Promise<RecordingSize[]> {
+    const recordings = await this.getRecordings();
+    const sizes = await Promise.all(recordings.map(async (recording) => {
+      const files = await Promise.all(getAudioFileNames(recording).map(name => this.readAudioFile(name, '')));
+      if (!files[0]) return null;
+      return { recordingId: recording.id, bytes: files.reduce((total, file) => total + (file?.size || 0), 0) };
+    }));
+
+    return sizes
+      .filter((size): size is RecordingSize => size !== null)
+      .sort((a, b) => b.bytes - a.bytes);
+  }
+
+  private getDirectory(): FileSystemDirectoryHandle {
+    if (!this.directory) throw new Error('Database not initialized');
+    return this.directory;
+  }
+
+  private async writeAudioFile(name: string, blob: Blob): Promise<void> {
+    const file = await this.getDirectory().getFileHandle(name, { create: true });
+    const writable = await file.createWritable();
+    try {
+      await writable.write(blob);
+    } finally {
+      await writable.close();
+    }
+  }
+
+  // OPFS files carry no type, so restore it for decoding and playback
+  private async readAudioFile(name: string, mimeType: string): Promise<Blob | null> {
+    try {
+      const file = await (await this.getDirectory().getFileHandle(name)).getFile();
+      return new Blob([file], { type: mimeType || file.type });
+    } catch (error) {
+      if ((error as DOMException).name === 'NotFoundError') return null;
+      throw error;
+    }
+  }
+
+  private async removeAudioFile(name: string): Promise<void> {
+    try {
+      await this.getDirectory().removeEntry(name);
+    } catch (error) {
+      if ((error as DOMException).name !== 'NotFoundError') throw error;
+    }
+  }
+}
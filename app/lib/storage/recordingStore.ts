@@ -0,0 +1,57 @@
+import {
+  AudioRecording,
+  RecordingChunk,
+  RecordingMetadata,
+  RecordingQuery,
+  RecordingSession,
+  RecordingSize,
+  RecordingSyncState,
+  RecordingsPage,
+  RecordingsPageCursor,
+  WaveformData,
+} from '../../types/audio';
+
+export type StorageBackendKind = 'indexeddb' | 'opfs' | 'memory';
+
+// Everything a storage backend has to provide. Behaviour built on top of these
+// primitives (retention, session recovery) lives in the audioStorage facade.
+export interface RecordingStore {
+  readonly kind: StorageBackendKind;
+
+  init(): Promise<void>;
+  clear(): Promise<void>;
+  close(): void;
+
+  saveRecording(recording: AudioRecording): Promise<void>;
+  updateRecording(metadata: RecordingMetadata): Promise<void>;
+  getRecordingsPage(limit: number, after?: RecordingsPageCursor, query?: RecordingQuery): Promise<RecordingsPage>;
+  getRecordings(): Promise<RecordingMetadata[]>;
+  countRecordings(): Promise<number>;
+  getAllTags(): Promise<string[]>;
+  deleteRecording(id: string): Promise<void>;
+  getRecordingMetadata(id: string): Promise<RecordingMetadata | null>;
+  getAudioBlob(id: string): Promise<Blob | null>;
+  getRecordingSizes(): Promise<RecordingSize[]>;
+  getVersions(originalId: string): Promise<RecordingMetadata[]>;
+
+  saveTrackAudio(recordingId: string, trackId: string, blob: Blob): Promise<void>;
+  getTrackAudio(recordingId: string, trackId: string): Promise<Blob | null>;
+
+  saveWaveform(waveform: WaveformData): Promise<void>;
+  getWaveform(recordingId: string): Promise<WaveformData | null>;
+
+  startSession(session: RecordingSession): Promise<void>;
+  appendChunk(chunk: RecordingChunk): Promise<void>;
+  getUnfinishedSessions(): Promise<RecordingSession[]>;
+  getSessionChunks(sessionId: string): Promise<RecordingChunk[]>;
+  finishSession(sessionId: string): Promise<void>;
+
+  getSyncStates(): Promise<RecordingSyncState[]>;
+  saveSyncState(state: RecordingSyncState): Promise<void>;
+  deleteSyncState(recordingId: string): Promise<void>;
+}
+
+export const toRecordingMetadata = (recording: AudioRecording): RecordingMetadata => {
+  const { blob: _blob, ...metadata } = recording;
+  return metadata;
+};
@@ -0,0 +1,105 @@
+export const RECORDINGS_STORE = 'recordings';
+export const AUDIO_STORE = 'audio';
+export const WAVEFORM_STORE = 'waveforms';
+export const SESSION_STORE = 'sessions';
+export const CHUNK_STORE = 'chunks';
+export const SYNC_STORE = 'sync';
+export const TRACK_STORE = 'trackAudio';
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Each migration upgrades the database from the previous version. Never edit a
+// migration once released; add a new one with the next version number instead.
+export const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Create recordings store',
+    migrate: (db) => {
+      const store = db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+      store.createIndex('createdAt', 'createdAt', { unique: false });
+    },
+  },
+  {
+    version: 2,
+    description: 'Add cached waveform peaks',
+    migrate: (db) => {
+      db.createObjectStore(WAVEFORM_STORE, { keyPath: 'recordingId' });
+    },
+  },
+  {
+    version: 3,
+    description: 'Index edited versions by their original recording',
+    migrate: (_db, transaction) => {
+      transaction.objectStore(RECORDINGS_STORE).createIndex('originalId', 'originalId', { unique: false });
+    },
+  },
+  {
+    version: 4,
+    description: 'Add crash-recovery sessions and chunks',
+    migrate: (db) => {
+      db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      const chunkStore = db.createObjectStore(CHUNK_STORE, { keyPath: ['sessionId', 'sequence'] });
+      chunkStore.createIndex('sessionId', 'sessionId', { unique: false });
+    },
+  },
+  {
+    version: 5,
+    description: 'Move audio blobs out of recording metadata',
+    migrate: (db, transaction) => {
+      db.createObjectStore(AUDIO_STORE, { keyPath: 'recordingId' });
+
+      const recordingsStore = transaction.objectStore(RECORDINGS_STORE);
+      const audioStore = transaction.objectStore(AUDIO_STORE);
+      const request = recordingsStore.openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+
+        const { blob, ...metadata } = cursor.value;
+        if (blob) {
+          audioStore.put({ recordingId: metadata.id, blob });
+          cursor.update(metadata);
+        }
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 6,
+    description: 'Index recordings by tag',
+    migrate: (_db, transaction) => {
+      transaction.objectStore(RECORDINGS_STORE).createIndex('tags', 'tags', { unique: false, multiEntry: true });
+    },
+  },
+  {
+    version: 7,
+    description: 'Create server sync state store',
+    migrate: (db) => {
+      db.createObjectStore(SYNC_STORE, { keyPath: 'recordingId' });
+    },
+  },
+  {
+    version: 8,
+    description: 'Create per-track audio store for multitrack recordings',
+    migrate: (db) => {
+      db.createObjectStore(TRACK_STORE, { keyPath: ['recordingId', 'trackId'] });
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const runMigrations = (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+): void => {
+  MIGRATIONS
+    .filter(migration => migration.version > oldVersion)
+    .forEach(migration => migration.migrate(db, transaction));
+};
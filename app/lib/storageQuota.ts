@@ -0,0 +1,61 @@
+export interface StorageEstimateInfo {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+// Leave headroom so a take is stopped well before the browser starts evicting
+const SAFETY_MARGIN_BYTES = 10 * 1024 * 1024;
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+export class StorageQuotaManager {
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' && !!navigator.storage?.estimate;
+  }
+
+  async estimate(): Promise<StorageEstimateInfo | null> {
+    if (!this.isSupported()) return null;
+
+    const [estimate, persisted] = await Promise.all([
+      navigator.storage.estimate(),
+      navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+    ]);
+
+    return {
+      usage: estimate.usage || 0,
+      quota: estimate.quota || 0,
+      persisted,
+    };
+  }
+
+  async requestPersistence(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+    return navigator.storage.persist();
+  }
+
+  async getRemainingBytes(): Promise<number | null> {
+    const estimate = await this.estimate();
+    if (!estimate || estimate.quota === 0) return null;
+    return Math.max(0, estimate.quota - estimate.usage - SAFETY_MARGIN_BYTES);
+  }
+
+  // Seconds of audio that still fit at the given data rate, or null if unknown
+  async getRemainingSeconds(bytesPerSecond: number): Promise<number | null> {
+    const remaining = await this.getRemainingBytes();
+    if (remaining === null || bytesPerSecond <= 0) return null;
+    return remaining / bytesPerSecond;
+  }
+}
+
+export const storageQuotaManager = new StorageQuotaManager();
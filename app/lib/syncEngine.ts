@@ -0,0 +1,361 @@
+import { RecordingMetadata, RecordingSyncState, RemoteRecording } from '../types/audio';
+import { audioStorage } from './audioStorage';
+
+export interface SyncSnapshot {
+  states: { [recordingId: string]: RecordingSyncState };
+  isSyncing: boolean;
+  lastSyncedAt: Date | null;
+  lastError: string | null;
+}
+
+export interface SyncResult {
+  uploaded: number;
+  downloaded: number;
+  deleted: number;
+  failed: number;
+}
+
+interface UploadStatus {
+  uploadId: string;
+  offset: number;
+  size: number;
+  complete: boolean;
+}
+
+type SyncListener = (snapshot: SyncSnapshot) => void;
+
+const API_BASE = '/api/recordings';
+const SYNC_ENABLED_KEY = 'audioRecorder.syncEnabled';
+const SERVER_KEY_KEY = 'audioRecorder.serverKey';
+const UPLOAD_CHUNK_BYTES = 512 * 1024;
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+export const loadSyncEnabled = (): boolean => localStorage.getItem(SYNC_ENABLED_KEY) === 'true';
+
+export const saveSyncEnabled = (enabled: boolean): void => {
+  localStorage.setItem(SYNC_ENABLED_KEY, String(enabled));
+};
+
+export const loadServerKey = (): string => localStorage.getItem(SERVER_KEY_KEY) || '';
+
+export const saveServerKey = (key: string): void => {
+  if (key) {
+    localStorage.setItem(SERVER_KEY_KEY, key);
+  } else {
+    localStorage.removeItem(SERVER_KEY_KEY);
+  }
+};
+
+// Sync and share management are owner-only on the server, so every call carries the key
+export const ownerFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const key = loadServerKey();
+  const response = await fetch(url, {
+    ...init,
+    headers: key ? { ...init.headers as Record<string, string>, Authorization: `Bearer ${key}` } : init.headers,
+  });
+  if (response.status === 401) {
+    throw new Error('The server key is missing or incorrect');
+  }
+  return response;
+};
+
+// Only the mix is uploaded, so the copy on the server has no separate tracks
+const toRemoteRecording = ({ tracks: _tracks, ...metadata }: RecordingMetadata): Omit<RemoteRecording, 'size' | 'uploadedAt'> => ({
+  ...metadata,
+  createdAt: new Date(metadata.createdAt).toISOString(),
+});
+
+const requestJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await ownerFetch(url, init);
+  if (!response.ok) {
+    throw new Error(`${init?.method || 'GET'} ${url} failed with status ${response.status}`);
+  }
+  return response.json();
+};
+
+// Keeps IndexedDB and the server in step: pushes local recordings with a
+// resumable chunked upload, pulls recordings other devices added, and replays
+// local deletions. Each recording's progress is kept in the sync store so an
+// interrupted upload continues from the server's offset on the next run.
+export class SyncEngine {
+  private states: { [recordingId: string]: RecordingSyncState } = {};
+  private listeners = new Set<SyncListener>();
+  private running: Promise<SyncResult> | null = null;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private lastSyncedAt: Date | null = null;
+  private lastError: string | null = null;
+  private onRemoteChange: (() => void) | null = null;
+
+  private handleOnline = () => {
+    this.sync();
+  };
+
+  async start(onRemoteChange: () => void): Promise<void> {
+    this.onRemoteChange = onRemoteChange;
+    await this.loadStates();
+
+    if (!this.intervalId) {
+      window.addEventListener('online', this.handleOnline);
+      this.intervalId = setInterval(() => this.sync(), SYNC_INTERVAL_MS);
+    }
+
+    this.sync();
+  }
+
+  stop(): void {
+    window.removeEventListener('online', this.handleOnline);
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.onRemoteChange = null;
+  }
+
+  isRunning(): boolean {
+    return this.intervalId !== null;
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getSnapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getSnapshot(): SyncSnapshot {
+    return {
+      states: { ...this.states },
+      isSyncing: this.running !== null,
+      lastSyncedAt: this.lastSyncedAt,
+      lastError: this.lastError,
+    };
+  }
+
+  // Leaves a tombstone so the next run removes the server copy instead of pulling it back
+  async markDeleted(recordingIds: string[]): Promise<void> {
+    if (Object.keys(this.states).length === 0) {
+      await this.loadStates();
+    }
+
+    for (const recordingId of recordingIds) {
+      if (this.states[recordingId]) {
+        await this.setState({ recordingId, status: 'deleted' });
+      }
+    }
+  }
+
+  // Uploads one recording on demand, whether or not background sync is enabled
+  async publish(recording: RecordingMetadata): Promise<void> {
+    try {
+      await this.upload(recording);
+    } catch (error) {
+      await this.setState({
+        ...this.states[recording.id],
+        recordingId: recording.id,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Upload failed',
+      });
+      throw error;
+    }
+  }
+
+  sync(): Promise<SyncResult> {
+    if (!this.running) {
+      this.running = this.runSync().finally(() => {
+        this.running = null;
+        this.notify();
+      });
+      this.notify();
+    }
+    return this.running;
+  }
+
+  private async runSync(): Promise<SyncResult> {
+    const result: SyncResult = { uploaded: 0, downloaded: 0, deleted: 0, failed: 0 };
+    if (!navigator.onLine) {
+      this.lastError = 'Offline';
+      return result;
+    }
+
+    try {
+      for (const state of Object.values(this.states)) {
+        if (state.status !== 'deleted') continue;
+
+        const response = await ownerFetch(`${API_BASE}/${encodeURIComponent(state.recordingId)}`, { method: 'DELETE' });
+        if (response.ok || response.status === 404) {
+          await this.removeState(state.recordingId);
+          result.deleted++;
+        }
+      }
+
+      const { recordings: remote } = await requestJson<{ recordings: RemoteRecording[] }>(API_BASE);
+      const local = await audioStorage.getRecordings();
+      const remoteIds = new Set(remote.map(recording => recording.id));
+      const localIds = new Set(local.map(recording => recording.id));
+
+      // States for recordings deleted before they ever reached the server
+      for (const state of Object.values(this.states)) {
+        if (state.status !== 'deleted' && !localIds.has(state.recordingId)) {
+          await this.removeState(state.recordingId);
+        }
+      }
+
+      for (const recording of local) {
+        if (remoteIds.has(recording.id)) {
+          if (this.states[recording.id]?.status !== 'synced') {
+            await this.setState({ recordingId: recording.id, status: 'synced', lastSyncedAt: new Date() });
+          }
+          continue;
+        }
+
+        try {
+          await this.upload(recording);
+          result.uploaded++;
+        } catch (error) {
+          result.failed++;
+          await this.setState({
+            ...this.states[recording.id],
+            recordingId: recording.id,
+            status: 'error',
+            error: error instanceof Error ? error.message : 'Upload failed',
+          });
+        }
+      }
+
+      for (const recording of remote) {
+        if (localIds.has(recording.id) || this.states[recording.id]?.status === 'deleted') continue;
+
+        try {
+          await this.download(recording);
+          result.downloaded++;
+        } catch (error) {
+          result.failed++;
+          console.error(`Failed to download recording ${recording.id}:`, error);
+        }
+      }
+
+      this.lastSyncedAt = new Date();
+      this.lastError = result.failed > 0 ? `${result.failed} recording(s) failed to sync` : null;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : 'Sync failed';
+      console.error('Sync failed:', error);
+    }
+
+    if (result.downloaded > 0) {
+      this.onRemoteChange?.();
+    }
+    return result;
+  }
+
+  private async upload(recording: RecordingMetadata): Promise<void> {
+    const blob = await audioStorage.getAudioBlob(recording.id);
+    if (!blob) {
+      throw new Error('Audio data is missing');
+    }
+
+    // Resume the previous upload when the server still has it
+    let upload: UploadStatus | null = null;
+    const previous = this.states[recording.id];
+    if (previous?.uploadId) {
+      const response = await ownerFetch(`${API_BASE}/uploads/${previous.uploadId}`);
+      if (response.ok) {
+        upload = await response.json();
+      }
+    }
+
+    if (!upload || upload.size !== blob.size) {
+      const response = await ownerFetch(`${API_BASE}/uploads`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ recording: toRemoteRecording(recording), size: blob.size }),
+      });
+
+      // Another device or an earlier run already finished this recording
+      if (response.status === 409) {
+        await this.setState({ recordingId: recording.id, status: 'synced', lastSyncedAt: new Date() });
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Creating upload failed with status ${response.status}`);
+      }
+      upload = await response.json();
+    }
+
+    const { uploadId } = upload!;
+    let offset = upload!.offset;
+
+    while (offset < blob.size) {
+      await this.setState({
+        recordingId: recording.id,
+        status: 'uploading',
+        uploadId,
+        uploadedBytes: offset,
+        totalBytes: blob.size,
+      });
+
+      const response = await ownerFetch(`${API_BASE}/uploads/${uploadId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Upload-Offset': String(offset),
+        },
+        body: blob.slice(offset, offset + UPLOAD_CHUNK_BYTES),
+      });
+
+      // The server holds a different offset, e.g. after a chunk whose response was lost
+      if (response.status === 409) {
+        offset = (await response.json()).offset;
+        continue;
+      }
+      if (!response.ok) {
+        throw new Error(`Upload failed with status ${response.status}`);
+      }
+      offset = (await response.json() as UploadStatus).offset;
+    }
+
+    await this.setState({ recordingId: recording.id, status: 'synced', lastSyncedAt: new Date() });
+  }
+
+  private async download(remote: RemoteRecording): Promise<void> {
+    const response = await ownerFetch(`${API_BASE}/${encodeURIComponent(remote.id)}`);
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+
+    const audio = await response.blob();
+    const { size, uploadedAt, createdAt, ...metadata } = remote;
+
+    await audioStorage.saveRecording({
+      ...metadata,
+      createdAt: new Date(createdAt),
+      blob: new Blob([audio], { type: remote.mimeType }),
+    });
+    await this.setState({ recordingId: remote.id, status: 'synced', lastSyncedAt: new Date() });
+  }
+
+  private async loadStates(): Promise<void> {
+    const states = await audioStorage.getSyncStates();
+    this.states = Object.fromEntries(states.map(state => [state.recordingId, state]));
+    this.notify();
+  }
+
+  private async setState(state: RecordingSyncState): Promise<void> {
+    this.states[state.recordingId] = state;
+    await audioStorage.saveSyncState(state);
+    this.notify();
+  }
+
+  private async removeState(recordingId: string): Promise<void> {
+    delete this.states[recordingId];
+    await audioStorage.deleteSyncState(recordingId);
+    this.notify();
+  }
+
+  private notify(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const syncEngine = new SyncEngine();
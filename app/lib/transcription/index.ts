@@ -0,0 +1,21 @@
+import { LocalTranscriptionProvider } from './localProvider';
+import { TranscriptionProvider } from './types';
+
+export * from './types';
+
+const providers: { [name: string]: () => TranscriptionProvider } = {
+  local: () => new LocalTranscriptionProvider(),
+};
+
+export const registerTranscriptionProvider = (name: string, factory: () => TranscriptionProvider): void => {
+  providers[name] = factory;
+};
+
+// Picks the provider named by TRANSCRIPTION_PROVIDER, defaulting to the local stand-in
+export const getTranscriptionProvider = (name: string = process.env.TRANSCRIPTION_PROVIDER || 'local'): TranscriptionProvider => {
+  const factory = providers[name];
+  if (!factory) {
+    throw new Error(`Unknown transcription provider: ${name}`);
+  }
+  return factory();
+};
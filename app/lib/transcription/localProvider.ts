@@ -0,0 +1,57 @@
+import { TranscriptSegment } from '../../types/audio';
+import { TranscriptionInput, TranscriptionProvider } from './types';
+
+const SEGMENT_SECONDS = 4;
+
+const WORDS = [
+  'okay', 'so', 'the', 'next', 'thing', 'we', 'need', 'to', 'talk', 'about', 'is', 'recording',
+  'audio', 'meeting', 'notes', 'schedule', 'project', 'update', 'question', 'idea', 'really',
+  'think', 'should', 'maybe', 'later', 'today', 'team', 'plan', 'review', 'follow', 'up', 'good',
+];
+
+// FNV-1a over the audio bytes, so the same file always yields the same transcript
+const hashBytes = (audio: ArrayBuffer): number => {
+  const bytes = new Uint8Array(audio);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => {
+  let state = seed;
+  return (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Development and test stand-in: produces plausible, repeatable segments without a network call
+export class LocalTranscriptionProvider implements TranscriptionProvider {
+  name = 'local';
+
+  async transcribe(input: TranscriptionInput): Promise<TranscriptSegment[]> {
+    const random = createRandom(hashBytes(input.audio));
+    const duration = Math.max(0, input.duration);
+    const segments: TranscriptSegment[] = [];
+
+    for (let start = 0; start < duration; start += SEGMENT_SECONDS) {
+      const wordCount = 4 + Math.floor(random() * 6);
+      const words = Array.from({ length: wordCount }, () => WORDS[Math.floor(random() * WORDS.length)]);
+      const text = words.join(' ');
+
+      segments.push({
+        start,
+        end: Math.min(duration, start + SEGMENT_SECONDS),
+        text: `${text.charAt(0).toUpperCase()}${text.slice(1)}.`,
+      });
+    }
+
+    return segments;
+  }
+}
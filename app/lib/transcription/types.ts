@@ -0,0 +1,21 @@
+import { TranscriptSegment } from '../../types/audio';
+
+export interface TranscriptionInput {
+  audio: ArrayBuffer;
+  mimeType: string;
+  // Seconds, as measured by the client; providers may use it to lay out segments
+  duration: number;
+  language?: string;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(input: TranscriptionInput): Promise<TranscriptSegment[]>;
+}
+
+export class TranscriptionError extends Error {
+  constructor(message: string, public readonly status: number = 502) {
+    super(message);
+    this.name = 'TranscriptionError';
+  }
+}
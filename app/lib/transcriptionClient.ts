@@ -0,0 +1,46 @@
+import { RecordingMetadata, Transcript, TranscriptSegment } from '../types/audio';
+import { audioStorage } from './audioStorage';
+
+const TRANSCRIBE_ENDPOINT = '/api/transcribe';
+
+interface TranscribeResponse {
+  provider: string;
+  segments: TranscriptSegment[];
+}
+
+export class TranscriptionClient {
+  // Sends the recording's audio to the route handler and stores the transcript with it
+  async transcribe(recording: RecordingMetadata): Promise<RecordingMetadata> {
+    const blob = await audioStorage.getAudioBlob(recording.id);
+    if (!blob) {
+      throw new Error(`Audio for ${recording.id} not found`);
+    }
+
+    const formData = new FormData();
+    formData.append('audio', blob, recording.id);
+    formData.append('duration', String(recording.duration));
+
+    const response = await fetch(TRANSCRIBE_ENDPOINT, { method: 'POST', body: formData });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || `Transcription failed with status ${response.status}`);
+    }
+
+    const result: TranscribeResponse = await response.json();
+    const transcript: Transcript = {
+      provider: result.provider,
+      createdAt: new Date(),
+      segments: result.segments,
+    };
+
+    const updated = { ...recording, transcript };
+    await audioStorage.updateRecording(updated);
+    return updated;
+  }
+
+  getActiveSegmentIndex(transcript: Transcript, time: number): number {
+    return transcript.segments.findIndex(segment => time >= segment.start && time < segment.end);
+  }
+}
+
+export const transcriptionClient = new TranscriptionClient();
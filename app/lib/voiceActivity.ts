@@ -0,0 +1,136 @@
+export interface VadSettings {
+  enabled: boolean;
+  // RMS level in dBFS below which input counts as silence
+  thresholdDb: number;
+  pauseAfterSeconds: number;
+  autoStopEnabled: boolean;
+  stopAfterSeconds: number;
+}
+
+export interface VadCallbacks {
+  onLevel?: (levelDb: number, isSpeech: boolean) => void;
+  onSilence?: () => void;
+  onSpeech?: () => void;
+  onSilenceTimeout?: () => void;
+}
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  enabled: false,
+  thresholdDb: -50,
+  pauseAfterSeconds: 2,
+  autoStopEnabled: false,
+  stopAfterSeconds: 30,
+};
+
+export const MIN_LEVEL_DB = -90;
+
+const SETTINGS_KEY = 'audioRecorder.vadSettings';
+const ANALYSIS_INTERVAL_MS = 50;
+// Speech must persist this long before an auto-paused take resumes, to ignore clicks
+const SPEECH_HOLD_MS = 150;
+
+export const loadVadSettings = (): VadSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_VAD_SETTINGS, ...JSON.parse(saved) } : DEFAULT_VAD_SETTINGS;
+  } catch {
+    return DEFAULT_VAD_SETTINGS;
+  }
+};
+
+export const saveVadSettings = (settings: VadSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export class VoiceActivityDetector {
+  private audioContext: AudioContext;
+  private source: MediaStreamAudioSourceNode;
+  private analyser: AnalyserNode;
+  private samples: Float32Array<ArrayBuffer>;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private silenceStartedAt: number | null = null;
+  private speechStartedAt: number | null = null;
+  private isSilent = false;
+  private hasTimedOut = false;
+
+  constructor(
+    stream: MediaStream,
+    private settings: VadSettings,
+    private callbacks: VadCallbacks,
+  ) {
+    this.audioContext = new AudioContext();
+    this.source = this.audioContext.createMediaStreamSource(stream);
+    this.analyser = this.audioContext.createAnalyser();
+    this.analyser.fftSize = 2048;
+    this.source.connect(this.analyser);
+    this.samples = new Float32Array(this.analyser.fftSize);
+  }
+
+  start(): void {
+    // A timer rather than requestAnimationFrame so detection keeps running in background tabs
+    this.intervalId = setInterval(() => this.analyse(), ANALYSIS_INTERVAL_MS);
+  }
+
+  updateSettings(settings: VadSettings): void {
+    this.settings = settings;
+  }
+
+  // Starts timing silence afresh, e.g. after the user resumed an auto-paused take,
+  // so the next stretch of silence pauses it again
+  reset(): void {
+    this.silenceStartedAt = null;
+    this.speechStartedAt = null;
+    this.isSilent = false;
+    this.hasTimedOut = false;
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.source.disconnect();
+    this.audioContext.close();
+  }
+
+  private analyse(): void {
+    this.analyser.getFloatTimeDomainData(this.samples);
+
+    let sumSquares = 0;
+    for (let i = 0; i < this.samples.length; i++) {
+      sumSquares += this.samples[i] * this.samples[i];
+    }
+    const rms = Math.sqrt(sumSquares / this.samples.length);
+    const levelDb = rms > 0 ? Math.max(MIN_LEVEL_DB, 20 * Math.log10(rms)) : MIN_LEVEL_DB;
+    const isSpeech = levelDb >= this.settings.thresholdDb;
+    const now = performance.now();
+
+    this.callbacks.onLevel?.(levelDb, isSpeech);
+
+    if (isSpeech) {
+      this.silenceStartedAt = null;
+      this.hasTimedOut = false;
+      this.speechStartedAt ??= now;
+
+      if (this.isSilent && now - this.speechStartedAt >= SPEECH_HOLD_MS) {
+        this.isSilent = false;
+        this.callbacks.onSpeech?.();
+      }
+      return;
+    }
+
+    this.speechStartedAt = null;
+    this.silenceStartedAt ??= now;
+    const silentFor = (now - this.silenceStartedAt) / 1000;
+
+    if (!this.isSilent && silentFor >= this.settings.pauseAfterSeconds) {
+      this.isSilent = true;
+      this.callbacks.onSilence?.();
+    }
+
+    if (this.settings.autoStopEnabled && !this.hasTimedOut && silentFor >= this.settings.stopAfterSeconds) {
+      this.hasTimedOut = true;
+      this.callbacks.onSilenceTimeout?.();
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { RecordingMetadata, WaveformData } from '../types/audio';
+import { audioStorage } from './audioStorage';
+
+export const WAVEFORM_BUCKETS = 200;
+
+export class WaveformGenerator {
+  async computePeaks(blob: Blob, bucketCount: number = WAVEFORM_BUCKETS): Promise<number[]> {
+    const audioContext = new AudioContext();
+    try {
+      const buffer = await audioContext.decodeAudioData(await blob.arrayBuffer());
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+      const bucketSize = Math.max(1, Math.floor(buffer.length / bucketCount));
+      const peaks: number[] = [];
+
+      for (let bucket = 0; bucket < bucketCount; bucket++) {
+        const start = bucket * bucketSize;
+        const end = Math.min(start + bucketSize, buffer.length);
+        let peak = 0;
+
+        for (const data of channels) {
+          for (let i = start; i < end; i++) {
+            const value = Math.abs(data[i]);
+            if (value > peak) peak = value;
+          }
+        }
+        peaks.push(peak);
+      }
+
+      return peaks;
+    } finally {
+      audioContext.close();
+    }
+  }
+
+  // Returns cached peaks when available, otherwise computes and stores them
+  async getPeaks(recording: RecordingMetadata): Promise<number[]> {
+    const cached = await audioStorage.getWaveform(recording.id);
+    if (cached) {
+      return cached.peaks;
+    }
+
+    const blob = await audioStorage.getAudioBlob(recording.id);
+    if (!blob) {
+      throw new Error(`Audio for ${recording.id} not found`);
+    }
+
+    const waveform: WaveformData = {
+      recordingId: recording.id,
+      peaks: await this.computePeaks(blob),
+    };
+    await audioStorage.saveWaveform(waveform);
+    return waveform.peaks;
+  }
+}
+
+export const waveformGenerator = new WaveformGenerator();
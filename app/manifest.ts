@@ -0,0 +1,34 @@
+import type { MetadataRoute } from 'next';
+import { AUDIO_FILE_TYPES, SHARE_TARGET_FIELD, SHARE_TARGET_PATH } from './lib/pwa';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    id: '/',
+    name: 'Audio Recorder',
+    short_name: 'Recorder',
+    description: 'Record, edit and organise audio, online or off.',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: '#5f27cd',
+    icons: [
+      { src: '/icon.svg', type: 'image/svg+xml', sizes: 'any', purpose: 'any' },
+    ],
+    // Handled by the service worker, which stashes the files for the page to import
+    share_target: {
+      action: SHARE_TARGET_PATH,
+      method: 'POST',
+      enctype: 'multipart/form-data',
+      params: {
+        files: [{ name: SHARE_TARGET_FIELD, accept: ['audio/*', ...Object.values(AUDIO_FILE_TYPES).flat()] }],
+      },
+    },
+    file_handlers: [
+      { action: '/', accept: AUDIO_FILE_TYPES },
+    ],
+    launch_handler: {
+      client_mode: 'focus-existing',
+    },
+  };
+}
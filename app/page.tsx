@@ -1,15 +1,52 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import AudioRecorder from './components/AudioRecorder';
+import ImportDropZone from './components/ImportDropZone';
 import RecordingsList from './components/RecordingsList';
-import { AudioRecording } from './types/audio';
-import { audioStorage } from './lib/audioStorage';
+import SessionRecovery from './components/SessionRecovery';
+import ShortcutsHelp from './components/ShortcutsHelp';
+import StoragePanel from './components/StoragePanel';
+import SyncPanel from './components/SyncPanel';
+import {
+  AudioRecording,
+  RecordingMetadata,
+  RecordingQuery,
+  RecordingSession,
+  RecordingsPageCursor,
+} from './types/audio';
+import { STORAGE_BACKEND_LABELS, StorageFallback, audioStorage, toRecordingMetadata } from './lib/audioStorage';
+import { audioImporter } from './lib/audioImport';
+import { onLaunchFiles, registerServiceWorker, takeSharedFiles } from './lib/pwa';
+import { matchesQuery, parseSearchParams, queryToSearchParams } from './lib/recordingSearch';
+import { loadRetentionRules } from './lib/retention';
+import { syncEngine } from './lib/syncEngine';
 import './styles/audio-recorder.css';
 
+const PAGE_SIZE = 20;
+
+interface ImportStatus {
+  message: string;
+  errors: string[];
+}
+
 export default function Home() {
-  const [recordings, setRecordings] = useState<AudioRecording[]>([]);
+  const [recordings, setRecordings] = useState<RecordingMetadata[]>([]);
+  const [nextCursor, setNextCursor] = useState<RecordingsPageCursor | null>(null);
+  const [totalCount, setTotalCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [unfinishedSessions, setUnfinishedSessions] = useState<RecordingSession[]>([]);
+  const [query, setQuery] = useState<RecordingQuery>({});
+  const [tags, setTags] = useState<string[]>([]);
+  const [importStatus, setImportStatus] = useState<ImportStatus | null>(null);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const [storageFallback, setStorageFallback] = useState<StorageFallback | null>(null);
+  const [isStorageWritable, setIsStorageWritable] = useState<boolean>(true);
+  const [retentionDeletedCount, setRetentionDeletedCount] = useState<number>(0);
+
+  // Mirrors of state read from async callbacks, which would otherwise see stale values
+  const queryRef = useRef<RecordingQuery>({});
+  const loadRequestRef = useRef<number>(0);
 
   useEffect(() => {
     initializeStorage();
@@ -18,7 +55,31 @@ export default function Home() {
   const initializeStorage = async () => {
     try {
       await audioStorage.init();
+      setStorageFallback(audioStorage.getFallback());
+      setIsStorageWritable(audioStorage.isWritable());
+
+      try {
+        const expired = await audioStorage.enforceRetention(loadRetentionRules());
+        if (expired.length > 0) {
+          await syncEngine.markDeleted(expired);
+          setRetentionDeletedCount(expired.length);
+        }
+      } catch (error) {
+        console.error('Failed to apply retention rules:', error);
+      }
+
+      // The filter lives in the URL so filtered views can be bookmarked
+      const searchParams = new URLSearchParams(window.location.search);
+      const initialQuery = parseSearchParams(searchParams);
+      queryRef.current = initialQuery;
+      setQuery(initialQuery);
+
       await loadRecordings();
+      setUnfinishedSessions(await audioStorage.getUnfinishedSessions());
+
+      registerServiceWorker();
+      await importSharedFiles(searchParams.get('shared'));
+      onLaunchFiles(importFiles);
     } catch (error) {
       console.error('Failed to initialize storage:', error);
     } finally {
@@ -26,23 +87,135 @@ export default function Home() {
     }
   };
 
-  const loadRecordings = async () => {
+  // Reloads from the newest recording, keeping at least as many rows as are shown
+  const loadRecordings = async (limit: number = PAGE_SIZE) => {
+    const requestId = ++loadRequestRef.current;
+
     try {
-      const savedRecordings = await audioStorage.getRecordings();
-      setRecordings(savedRecordings);
+      const page = await audioStorage.getRecordingsPage(Math.max(limit, PAGE_SIZE), undefined, queryRef.current);
+      const [count, allTags] = await Promise.all([
+        audioStorage.countRecordings(),
+        audioStorage.getAllTags(),
+      ]);
+      if (requestId !== loadRequestRef.current) return;
+
+      setRecordings(page.recordings);
+      setNextCursor(page.nextCursor);
+      setTotalCount(count);
+      setTags(allTags);
     } catch (error) {
       console.error('Failed to load recordings:', error);
     }
   };
 
+  const loadMoreRecordings = async () => {
+    if (!nextCursor) return;
+
+    try {
+      const requestId = loadRequestRef.current;
+      const page = await audioStorage.getRecordingsPage(PAGE_SIZE, nextCursor, queryRef.current);
+      if (requestId !== loadRequestRef.current) return;
+
+      setRecordings(prev => [...prev, ...page.recordings]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more recordings:', error);
+    }
+  };
+
   const handleRecordingComplete = (newRecording: AudioRecording) => {
-    setRecordings(prev => [newRecording, ...prev]);
+    const metadata = toRecordingMetadata(newRecording);
+    if (matchesQuery(metadata, queryRef.current)) {
+      setRecordings(prev => [metadata, ...prev]);
+    }
+    setTotalCount(prev => prev + 1);
+
+    if (syncEngine.isRunning()) {
+      syncEngine.sync();
+    }
   };
 
-  const handleRecordingsChange = () => {
+  const importFiles = async (files: File[]) => {
+    setIsImporting(true);
+    try {
+      const { imported, errors } = await audioImporter.importFiles(files, (done, total) => {
+        if (done < total) setImportStatus({ message: `Importing ${done + 1} of ${total}...`, errors: [] });
+      });
+      imported.forEach(handleRecordingComplete);
+      setImportStatus({
+        message: imported.length > 0
+          ? `Imported ${imported.length} file${imported.length !== 1 ? 's' : ''}.`
+          : 'No files were imported.',
+        errors,
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Files shared from other apps arrive through the service worker with ?shared= in the URL
+  const importSharedFiles = async (shared: string | null) => {
+    if (shared === null) return;
+
+    const params = queryToSearchParams(queryRef.current).toString();
+    window.history.replaceState(null, '', params ? `?${params}` : window.location.pathname);
+
+    if (shared === 'failed') {
+      setImportStatus({
+        message: 'The shared files could not be received. Open the app once while online, then share again.',
+        errors: [],
+      });
+      return;
+    }
+
+    const files = await takeSharedFiles();
+    if (files.length > 0) await importFiles(files);
+  };
+
+  const handleRecoverSession = async (session: RecordingSession) => {
+    try {
+      const recovered = await audioStorage.recoverSession(session);
+      setUnfinishedSessions(prev => prev.filter(s => s.id !== session.id));
+      if (recovered) {
+        await loadRecordings();
+      }
+    } catch (error) {
+      console.error('Failed to recover recording:', error);
+    }
+  };
+
+  const handleDiscardSession = async (session: RecordingSession) => {
+    if (!confirm('Discard this unfinished recording? It cannot be recovered afterwards.')) return;
+
+    try {
+      await audioStorage.finishSession(session.id);
+      setUnfinishedSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (error) {
+      console.error('Failed to discard recording:', error);
+    }
+  };
+
+  const acceptMemoryStorage = () => {
+    audioStorage.acceptMemoryStorage();
+    setIsStorageWritable(true);
+  };
+
+  const handleQueryChange = (newQuery: RecordingQuery) => {
+    queryRef.current = newQuery;
+    setQuery(newQuery);
+
+    const params = queryToSearchParams(newQuery).toString();
+    window.history.replaceState(null, '', params ? `?${params}` : window.location.pathname);
+
     loadRecordings();
   };
 
+  const handleRecordingsChange = () => {
+    // Moving recordings to a working backend in the storage panel clears the fallback
+    setStorageFallback(audioStorage.getFallback());
+    loadRecordings(recordings.length);
+  };
+
   if (isLoading) {
     return (
       <div style={{
@@ -73,14 +246,69 @@ export default function Home() {
           <p style={{ color: '#666', fontSize: '1.1rem' }}>
             Record, save, and play back your audio messages
           </p>
+          <ShortcutsHelp />
         </div>
 
+        {storageFallback && (
+          <div className="storage-fallback-notice">
+            <p>
+              ⚠️ {STORAGE_BACKEND_LABELS[storageFallback.preferred]} could not be opened, so recordings
+              saved there are not shown.{' '}
+              {storageFallback.active === 'memory'
+                ? isStorageWritable
+                  ? 'New recordings are kept in memory and lost when the page is closed.'
+                  : 'Recording is off until you reload or agree to keep new recordings in memory only.'
+                : `New recordings go to ${STORAGE_BACKEND_LABELS[storageFallback.active]} for now.`}
+            </p>
+            <div className="storage-fallback-actions">
+              <button onClick={() => window.location.reload()}>Reload</button>
+              {!isStorageWritable && (
+                <button onClick={acceptMemoryStorage}>Keep recordings in memory</button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {importStatus && (
+          <div className="import-notice">
+            <div>
+              <p>{importStatus.message}</p>
+              {importStatus.errors.length > 0 && (
+                <ul className="import-errors">
+                  {importStatus.errors.map((error, i) => <li key={i}>{error}</li>)}
+                </ul>
+              )}
+            </div>
+            {!isImporting && (
+              <button onClick={() => setImportStatus(null)} title="Dismiss">✕</button>
+            )}
+          </div>
+        )}
+
+        <SessionRecovery
+          sessions={unfinishedSessions}
+          onRecover={handleRecoverSession}
+          onDiscard={handleDiscardSession}
+        />
+
         <AudioRecorder onRecordingComplete={handleRecordingComplete} />
 
+        <SyncPanel onRemoteChange={() => loadRecordings()} />
+
+        <ImportDropZone onFiles={importFiles} disabled={isImporting} />
+
         <RecordingsList
           recordings={recordings}
+          totalCount={totalCount}
+          query={query}
+          tags={tags}
+          onQueryChange={handleQueryChange}
+          hasMore={nextCursor !== null}
+          onLoadMore={loadMoreRecordings}
           onRecordingsChange={handleRecordingsChange}
         />
+
+        <StoragePanel onRecordingsChange={handleRecordingsChange} retentionDeletedCount={retentionDeletedCount} />
       </main>
     </div>
   );
@@ -0,0 +1,90 @@
+import type { Metadata } from 'next';
+import { cookies } from 'next/headers';
+import { notFound } from 'next/navigation';
+import SharePlayer from '../../components/SharePlayer';
+import ShareUnlock from '../../components/ShareUnlock';
+import { getShareCookieName, getShareStore, lookupShare } from '../../lib/server';
+import '../../styles/audio-recorder.css';
+
+interface SharePageProps {
+  params: Promise<{ token: string }>;
+}
+
+const UNAVAILABLE_MESSAGES = {
+  expired: 'This link has expired.',
+  revoked: 'This link was revoked by its owner.',
+  missing: 'This recording is no longer available.',
+};
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Password-protected shares reveal nothing about the recording until unlocked
+const canViewShare = async (token: string): Promise<boolean> => {
+  const accessKey = (await cookies()).get(getShareCookieName(token))?.value;
+  return getShareStore().hasAccess(token, accessKey);
+};
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const { token } = await params;
+  const { recording, status } = await lookupShare(token);
+  const isVisible = !!recording && status === 'active' && await canViewShare(token);
+
+  return {
+    title: isVisible ? `${recording.name} · Audio Recorder` : 'Shared recording',
+    robots: { index: false },
+  };
+}
+
+// Expired and revoked links get their 410 status from middleware; this page renders the message
+export default async function SharePage({ params }: SharePageProps) {
+  const { token } = await params;
+  const { share, recording, peaks, status } = await lookupShare(token);
+
+  if (!share || !status) {
+    notFound();
+  }
+
+  if (status !== 'active' || !recording) {
+    return (
+      <main className="share-page">
+        <div className="share-card">
+          <h1>Shared recording</h1>
+          <p className="share-unavailable">{UNAVAILABLE_MESSAGES[status === 'active' ? 'missing' : status]}</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!(await canViewShare(token))) {
+    return (
+      <main className="share-page">
+        <div className="share-card">
+          <h1>Shared recording</h1>
+          <ShareUnlock token={token} />
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="share-page">
+      <div className="share-card">
+        <h1>{recording.name}</h1>
+        <p className="share-meta">
+          {formatTime(recording.duration)} · Recorded {new Date(recording.createdAt).toLocaleDateString()}
+          {share.expiresAt && <> · Link expires {new Date(share.expiresAt).toLocaleString()}</>}
+        </p>
+
+        <SharePlayer
+          src={`/api/shares/${token}/audio`}
+          duration={recording.duration}
+          peaks={peaks}
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+
+// The service worker normally answers share-target posts. This only runs when
+// it is not in control yet, so the shared files cannot be kept.
+export async function POST(request: Request) {
+  return NextResponse.redirect(new URL('/?shared=failed', request.url), 303);
+}
@@ -1,23 +1,181 @@
-export interface AudioRecording {
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface RecordingEdits {
+  inPoint: number;
+  outPoint: number;
+  cuts: TimeRange[];
+}
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  provider: string;
+  createdAt: Date;
+  segments: TranscriptSegment[];
+}
+
+// A point of interest dropped while recording, as seconds from the start
+export interface RecordingMarker {
+  id: string;
+  time: number;
+  label: string;
+}
+
+// One input of a multitrack recording. The recording's own audio is the mix;
+// each track's audio is stored separately under the recording id and track id.
+export interface RecordingTrack {
+  id: string;
+  label: string;
+  mimeType: string;
+  // Timeline position of the track's first sample in seconds; negative trims its start
+  offset?: number;
+  // Linear gain, 1 when unset
+  volume?: number;
+  // -1 (left) to 1 (right), centred when unset
+  pan?: number;
+}
+
+// Where a recording came from; unset on recordings saved before this was
+// tracked, which were all recorded in the app
+export type RecordingSource = 'recorded' | 'imported';
+
+export interface RecordingMetadata {
   id: string;
   name: string;
-  blob: Blob;
   duration: number;
   createdAt: Date;
   mimeType: string;
+  // Set on edited versions; points at the untouched original recording
+  originalId?: string;
+  version?: number;
+  edits?: RecordingEdits;
+  tags?: string[];
+  notes?: string;
+  transcript?: Transcript;
+  markers?: RecordingMarker[];
+  tracks?: RecordingTrack[];
+  source?: RecordingSource;
+}
+
+export interface AudioRecording extends RecordingMetadata {
+  blob: Blob;
+}
+
+export interface RetentionRule {
+  id: string;
+  enabled: boolean;
+  maxAgeDays: number;
+  // Recordings carrying this tag are never deleted by the rule
+  keepTag?: string;
+}
+
+export interface RecordingSize {
+  recordingId: string;
+  bytes: number;
+}
+
+export interface RecordingQuery {
+  text?: string;
+  tag?: string;
+  // yyyy-mm-dd, inclusive
+  from?: string;
+  to?: string;
+  // Seconds
+  minDuration?: number;
+  maxDuration?: number;
+}
+
+// Recording metadata as stored on the server; dates travel as ISO strings
+export interface RemoteRecording extends Omit<RecordingMetadata, 'createdAt'> {
+  createdAt: string;
+  size: number;
+  uploadedAt: string;
+}
+
+// Public view of a share link; the password hash never leaves the server
+export interface RecordingShare {
+  token: string;
+  recordingId: string;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  hasPassword: boolean;
+}
+
+export type ShareStatus = 'active' | 'expired' | 'revoked' | 'missing';
+
+export type SyncStatus = 'pending' | 'uploading' | 'synced' | 'error' | 'deleted';
+
+export interface RecordingSyncState {
+  recordingId: string;
+  status: SyncStatus;
+  uploadId?: string;
+  uploadedBytes?: number;
+  totalBytes?: number;
+  lastSyncedAt?: Date;
+  error?: string;
+}
+
+export interface RecordingsPageCursor {
+  createdAt: Date;
+  id: string;
+}
+
+export interface RecordingsPage {
+  recordings: RecordingMetadata[];
+  nextCursor: RecordingsPageCursor | null;
+}
+
+export interface WaveformData {
+  recordingId: string;
+  peaks: number[];
+}
+
+export interface RecordingSession {
+  id: string;
+  mimeType: string;
+  startedAt: Date;
+}
+
+export interface RecordingChunk {
+  sessionId: string;
+  sequence: number;
+  blob: Blob;
+  // Elapsed recording time when the chunk was captured, used as the recovered duration
+  recordingTime: number;
 }
 
 export interface RecordingState {
   isRecording: boolean;
   isPaused: boolean;
   recordingTime: number;
+  // Seconds left in the pre-roll countdown, null when not counting down
+  countdown: number | null;
+  // Seconds until the maximum duration stops the take, null without a limit
+  remainingTime: number | null;
   mediaRecorder: MediaRecorder | null;
   audioStream: MediaStream | null;
 }
 
+// Snapshot of the shared playback controller; only one recording plays at a time
 export interface PlaybackState {
+  recordingId: string | null;
   isPlaying: boolean;
+  isLoading: boolean;
   currentTime: number;
   duration: number;
-  audio: HTMLAudioElement | null;
+  playbackRate: number;
+  loopStart: number | null;
+  loopEnd: number | null;
+  skipSilence: boolean;
+  // Track ids of the loaded multitrack recording
+  mutedTracks: string[];
+  soloTracks: string[];
 }
\ No newline at end of file
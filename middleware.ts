@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { lookupShare } from './app/lib/server';
+
+const GONE_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="robots" content="noindex"><title>Link unavailable</title></head>
+<body style="font-family: sans-serif; text-align: center; padding: 4rem 1rem; color: #333;">
+<h1>This link is no longer available</h1>
+<p>It has expired or was revoked by its owner.</p>
+</body>
+</html>`;
+
+// Page components cannot choose their status code, so share links are checked
+// here first and expired, revoked or orphaned ones answered with 410 Gone.
+// Runs on Node so the share store is read directly rather than over HTTP.
+export async function middleware(request: NextRequest) {
+  const token = request.nextUrl.pathname.split('/')[2];
+  if (!token) return NextResponse.next();
+
+  try {
+    const { share, status } = await lookupShare(token);
+    if (share && status !== 'active') {
+      return new NextResponse(GONE_PAGE, {
+        status: 410,
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+  } catch (error) {
+    console.error('Failed to check share status:', error);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: '/r/:token',
+  runtime: 'nodejs',
+};
@@ -0,0 +1,138 @@
+// Caches the app shell so the recorder opens without a connection, and
+// receives audio files shared from other apps through the manifest's share target
+
+const SHELL_CACHE = 'audio-recorder-shell-v2';
+// Read and emptied by takeSharedFiles in app/lib/pwa.ts
+const SHARED_FILES_CACHE = 'audio-recorder-shared-files';
+const SHARE_TARGET_PATH = '/share-target';
+const SHARE_TARGET_FIELD = 'audio';
+const STATIC_URLS = ['/manifest.webmanifest', '/icon.svg', '/favicon.ico'];
+const ASSET_PREFIX = '/_next/static/';
+// Hashed build assets as they appear in the HTML, in the RSC payload and in stylesheets
+const ASSET_PATTERN = /\/_next\/static\/[^"'()\s\\]+/g;
+
+// Only the recorder itself opens offline; other pages, such as share links,
+// must come from the server so revoked or password-gated ones stay closed
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(async (cache) => {
+        await cache.addAll(['/', ...STATIC_URLS]);
+        // The page that registered the worker loaded its chunks before the worker
+        // could see them, so they are fetched here from the shell's HTML
+        const shell = await cache.match('/');
+        await cacheShellAssets(cache, await shell.text());
+      })
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith('audio-recorder-shell-') && key !== SHELL_CACHE)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method === 'POST' && url.pathname === SHARE_TARGET_PATH) {
+    event.respondWith(receiveSharedFiles(request));
+    return;
+  }
+
+  // API calls and uploads must always reach the server
+  if (request.method !== 'GET' || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    if (url.pathname === '/') event.respondWith(networkFirst(event));
+  } else if (url.pathname.startsWith(ASSET_PREFIX) || STATIC_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+// The shell stays fresh when online; offline, the last copy is served whatever
+// the query string, so filtered views of the library still open
+async function networkFirst(event) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(event.request);
+    if (response.ok) {
+      await cache.put('/', response.clone());
+      event.waitUntil(
+        response.clone().text()
+          .then(html => cacheShellAssets(cache, html))
+          .catch(error => console.error('Failed to cache app assets:', error))
+      );
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Caches every asset the shell refers to. A missing one means a new deploy,
+// so assets the current shell no longer uses are removed to keep the cache small.
+async function cacheShellAssets(cache, html) {
+  const assets = new Set(html.match(ASSET_PATTERN) || []);
+  let isNewBuild = false;
+
+  // Fonts found in stylesheets are added to the set while it is being walked
+  for (const asset of assets) {
+    let response = await cache.match(asset);
+    if (!response) {
+      isNewBuild = true;
+      response = await fetch(asset);
+      if (!response.ok) continue;
+      await cache.put(asset, response.clone());
+    }
+    if (asset.endsWith('.css')) {
+      (await response.text()).match(ASSET_PATTERN)?.forEach(nested => assets.add(nested));
+    }
+  }
+
+  if (!isNewBuild) return;
+  for (const request of await cache.keys()) {
+    const url = new URL(request.url);
+    if (url.pathname.startsWith(ASSET_PREFIX) && !assets.has(url.pathname + url.search)) {
+      await cache.delete(request);
+    }
+  }
+}
+
+// Build assets are content-hashed, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+async function receiveSharedFiles(request) {
+  const formData = await request.formData();
+  const files = formData.getAll(SHARE_TARGET_FIELD).filter(file => file instanceof File);
+  const cache = await caches.open(SHARED_FILES_CACHE);
+
+  await Promise.all(files.map((file, i) => cache.put(
+    `/shared-files/${Date.now()}-${i}`,
+    new Response(file, {
+      headers: {
+        'Content-Type': file.type || 'application/octet-stream',
+        'X-Filename': encodeURIComponent(file.name),
+      },
+    })
+  )));
+
+  return Response.redirect(`/?shared=${files.length}`, 303);
+}